@@ -0,0 +1,313 @@
+/**
+ * @file src/core/binary-decoders.ts
+ * @description Minimal CBOR and MessagePack decoders for captured bodies
+ */
+
+const MAX_NESTING = 64;
+
+/**
+ * Binary values are summarized rather than copied into the payload
+ */
+function describeBinary(size: number): { __type: 'binary'; size: number } {
+  return { __type: 'binary', size };
+}
+
+/**
+ * Store a decoded map entry as an own property, so keys like `__proto__` stay data
+ */
+function setMapEntry(map: Record<string, any>, key: unknown, value: unknown): void {
+  Object.defineProperty(map, typeof key === 'object' ? JSON.stringify(key) : String(key), {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Read a 64-bit unsigned integer, as a number when it is safe to do so
+ */
+function readUint64(view: DataView, offset: number): number | bigint {
+  const value = view.getBigUint64(offset);
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+/**
+ * Read a 64-bit signed integer, as a number when it is safe to do so
+ */
+function readInt64(view: DataView, offset: number): number | bigint {
+  const value = view.getBigInt64(offset);
+  return value <= BigInt(Number.MAX_SAFE_INTEGER) && value >= BigInt(Number.MIN_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * Decode an IEEE 754 half-precision float
+ */
+function decodeFloat16(bits: number): number {
+  const sign = bits & 0x8000 ? -1 : 1;
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x03ff;
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (fraction / 1024);
+  }
+  if (exponent === 0x1f) {
+    return fraction ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Decode a CBOR (RFC 8949) document
+ * @param bytes - Encoded data
+ * @returns Decoded value; byte strings are summarized as `{ __type: 'binary', size }`
+ */
+export function decodeCbor(bytes: Uint8Array): any {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  const ensure = (length: number) => {
+    if (offset + length > bytes.length) {
+      throw new Error('Unexpected end of CBOR data');
+    }
+  };
+
+  const readLength = (info: number): number | bigint | null => {
+    if (info < 24) {
+      return info;
+    }
+    switch (info) {
+      case 24: ensure(1); return view.getUint8(offset++);
+      case 25: ensure(2); offset += 2; return view.getUint16(offset - 2);
+      case 26: ensure(4); offset += 4; return view.getUint32(offset - 4);
+      case 27: ensure(8); offset += 8; return readUint64(view, offset - 8);
+      case 31: return null; // Indefinite length
+      default: throw new Error('Invalid CBOR length');
+    }
+  };
+
+  const readItem = (depth: number): any => {
+    if (depth > MAX_NESTING) {
+      throw new Error('CBOR nesting too deep');
+    }
+    ensure(1);
+    const initial = view.getUint8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      switch (info) {
+        case 20: return false;
+        case 21: return true;
+        case 22: return null;
+        case 23: return undefined;
+        case 25: ensure(2); offset += 2; return decodeFloat16(view.getUint16(offset - 2));
+        case 26: ensure(4); offset += 4; return view.getFloat32(offset - 4);
+        case 27: ensure(8); offset += 8; return view.getFloat64(offset - 8);
+        case 31: throw new Error('Unexpected CBOR break');
+        default: return { __type: 'simple', value: info < 24 ? info : readLength(24) };
+      }
+    }
+
+    const length = readLength(info);
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return typeof length === 'bigint' ? -BigInt(1) - length : -1 - (length as number);
+      case 2:
+      case 3: {
+        // Indefinite strings are a series of definite chunks ended by a break
+        const chunks: Uint8Array[] = [];
+        if (length === null) {
+          while (ensure(1), view.getUint8(offset) !== 0xff) {
+            const chunkLength = Number(readLength(view.getUint8(offset++) & 0x1f));
+            ensure(chunkLength);
+            chunks.push(bytes.subarray(offset, offset + chunkLength));
+            offset += chunkLength;
+          }
+          offset++;
+        } else {
+          const size = Number(length);
+          ensure(size);
+          chunks.push(bytes.subarray(offset, offset + size));
+          offset += size;
+        }
+        const size = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0);
+        if (major === 2) {
+          return describeBinary(size);
+        }
+        return chunks.map((chunk) => decoder.decode(chunk)).join('');
+      }
+      case 4: {
+        const items: any[] = [];
+        if (length === null) {
+          while (ensure(1), view.getUint8(offset) !== 0xff) {
+            items.push(readItem(depth + 1));
+          }
+          offset++;
+        } else {
+          for (let i = 0; i < Number(length); i++) {
+            items.push(readItem(depth + 1));
+          }
+        }
+        return items;
+      }
+      case 5: {
+        const map: Record<string, any> = {};
+        const readPair = () => {
+          const key = readItem(depth + 1);
+          setMapEntry(map, key, readItem(depth + 1));
+        };
+        if (length === null) {
+          while (ensure(1), view.getUint8(offset) !== 0xff) {
+            readPair();
+          }
+          offset++;
+        } else {
+          for (let i = 0; i < Number(length); i++) {
+            readPair();
+          }
+        }
+        return map;
+      }
+      case 6:
+        // Tags (dates, bignums...) are dropped in favour of the tagged value
+        return readItem(depth + 1);
+      default:
+        throw new Error('Invalid CBOR major type');
+    }
+  };
+
+  const value = readItem(0);
+  if (offset !== bytes.length) {
+    throw new Error('Trailing bytes after CBOR value');
+  }
+  return value;
+}
+
+/**
+ * Decode a MessagePack document
+ * @param bytes - Encoded data
+ * @returns Decoded value; bin and ext values are summarized
+ */
+export function decodeMsgpack(bytes: Uint8Array): any {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  let offset = 0;
+
+  // Advance past `length` bytes and return where they start
+  const take = (length: number): number => {
+    if (offset + length > bytes.length) {
+      throw new Error('Unexpected end of MessagePack data');
+    }
+    const start = offset;
+    offset += length;
+    return start;
+  };
+
+  const readUint = (size: 1 | 2 | 4): number => {
+    const start = take(size);
+    return size === 1 ? view.getUint8(start) : size === 2 ? view.getUint16(start) : view.getUint32(start);
+  };
+
+  const readString = (length: number): string => {
+    const start = take(length);
+    return decoder.decode(bytes.subarray(start, start + length));
+  };
+
+  const readBinary = (length: number) => {
+    take(length);
+    return describeBinary(length);
+  };
+
+  const readExt = (length: number) => {
+    const type = view.getInt8(take(1));
+    take(length);
+    return { __type: 'ext', type, size: length };
+  };
+
+  const readArray = (length: number, depth: number): any[] => {
+    const items: any[] = [];
+    for (let i = 0; i < length; i++) {
+      items.push(readItem(depth + 1));
+    }
+    return items;
+  };
+
+  const readMap = (length: number, depth: number): Record<string, any> => {
+    const map: Record<string, any> = {};
+    for (let i = 0; i < length; i++) {
+      const key = readItem(depth + 1);
+      setMapEntry(map, key, readItem(depth + 1));
+    }
+    return map;
+  };
+
+  function readItem(depth: number): any {
+    if (depth > MAX_NESTING) {
+      throw new Error('MessagePack nesting too deep');
+    }
+    const type = view.getUint8(take(1));
+
+    if (type <= 0x7f) {
+      return type; // positive fixint
+    }
+    if (type >= 0xe0) {
+      return type - 0x100; // negative fixint
+    }
+    if (type >= 0xa0 && type <= 0xbf) {
+      return readString(type & 0x1f);
+    }
+    if (type >= 0x90 && type <= 0x9f) {
+      return readArray(type & 0x0f, depth);
+    }
+    if (type >= 0x80 && type <= 0x8f) {
+      return readMap(type & 0x0f, depth);
+    }
+
+    switch (type) {
+      case 0xc0: return null;
+      case 0xc2: return false;
+      case 0xc3: return true;
+      case 0xc4: return readBinary(readUint(1));
+      case 0xc5: return readBinary(readUint(2));
+      case 0xc6: return readBinary(readUint(4));
+      case 0xc7: return readExt(readUint(1));
+      case 0xc8: return readExt(readUint(2));
+      case 0xc9: return readExt(readUint(4));
+      case 0xca: return view.getFloat32(take(4));
+      case 0xcb: return view.getFloat64(take(8));
+      case 0xcc: return readUint(1);
+      case 0xcd: return readUint(2);
+      case 0xce: return readUint(4);
+      case 0xcf: return readUint64(view, take(8));
+      case 0xd0: return view.getInt8(take(1));
+      case 0xd1: return view.getInt16(take(2));
+      case 0xd2: return view.getInt32(take(4));
+      case 0xd3: return readInt64(view, take(8));
+      case 0xd4: return readExt(1);
+      case 0xd5: return readExt(2);
+      case 0xd6: return readExt(4);
+      case 0xd7: return readExt(8);
+      case 0xd8: return readExt(16);
+      case 0xd9: return readString(readUint(1));
+      case 0xda: return readString(readUint(2));
+      case 0xdb: return readString(readUint(4));
+      case 0xdc: return readArray(readUint(2), depth);
+      case 0xdd: return readArray(readUint(4), depth);
+      case 0xde: return readMap(readUint(2), depth);
+      case 0xdf: return readMap(readUint(4), depth);
+      default: throw new Error('Invalid MessagePack type');
+    }
+  }
+
+  const value = readItem(0);
+  if (offset !== bytes.length) {
+    throw new Error('Trailing bytes after MessagePack value');
+  }
+  return value;
+}
@@ -0,0 +1,174 @@
+/**
+ * @file src/core/body-parser-registry.ts
+ * @description Content-type keyed registry of body parsers, with built-ins for XML, GraphQL, NDJSON, CBOR, MessagePack and protobuf
+ */
+
+import { parseXml } from './xml-parser';
+import { decodeCbor, decodeMsgpack } from './binary-decoders';
+import { parseNdjsonLines } from './stream-capture';
+
+/**
+ * Turns raw body bytes into the value recorded in the payload
+ */
+export type BodyParser = (body: Uint8Array, contentType: string) => any | Promise<any>;
+
+interface RegisteredParser {
+  matches: (mediaType: string) => boolean;
+  parse: BodyParser;
+}
+
+const MAX_XML_SIZE = 256 * 1024; // Larger documents are kept as truncated text
+const MAX_XML_TEXT = 8 * 1024;
+const MAX_NDJSON_LINES = 100;
+
+/**
+ * Media type without parameters, lowercased (`Application/XML; charset=utf-8` -> `application/xml`)
+ */
+function getMediaType(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Read a content-type parameter such as `charset` or `proto`
+ */
+function getParameter(contentType: string, name: string): string | undefined {
+  const match = contentType.match(new RegExp(`;\\s*${name}\\s*=\\s*("([^"]*)"|[^;\\s]+)`, 'i'));
+  return match ? (match[2] ?? match[1]) : undefined;
+}
+
+/**
+ * Build a matcher for a content-type key: exact media type, `*` globs, or a RegExp
+ */
+function createContentTypeMatcher(contentType: string | RegExp): (mediaType: string) => boolean {
+  if (contentType instanceof RegExp) {
+    const pattern = new RegExp(contentType.source, contentType.flags.replace(/[gy]/g, ''));
+    return (mediaType) => pattern.test(mediaType);
+  }
+  const key = getMediaType(contentType);
+  if (!key.includes('*')) {
+    return (mediaType) => mediaType === key;
+  }
+  const pattern = new RegExp(`^${key.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return (mediaType) => pattern.test(mediaType);
+}
+
+function decodeText(body: Uint8Array, contentType: string): string {
+  try {
+    return new TextDecoder(getParameter(contentType, 'charset') || 'utf-8').decode(body);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(body);
+  }
+}
+
+/**
+ * XML becomes a structured object; oversized or malformed documents are kept as truncated text
+ */
+function parseXmlBody(body: Uint8Array, contentType: string): any {
+  const text = decodeText(body, contentType);
+  if (body.byteLength <= MAX_XML_SIZE) {
+    try {
+      return parseXml(text);
+    } catch {
+      // Fall through to text
+    }
+  }
+  return text.length > MAX_XML_TEXT ? `${text.slice(0, MAX_XML_TEXT)}... [truncated]` : text;
+}
+
+/**
+ * GraphQL documents are recorded with their operation type and name
+ */
+function parseGraphqlBody(body: Uint8Array, contentType: string): any {
+  const query = decodeText(body, contentType);
+  const source = query.replace(/#[^\n\r]*/g, '').trim();
+  const operation = source.match(/^(query|mutation|subscription)\b\s*([_A-Za-z][_0-9A-Za-z]*)?/);
+  return {
+    query,
+    operationType: operation ? operation[1] : source.startsWith('{') ? 'query' : null,
+    operationName: operation && operation[2] ? operation[2] : null,
+  };
+}
+
+function parseNdjsonBody(body: Uint8Array, contentType: string): any {
+  return parseNdjsonLines(decodeText(body, contentType), MAX_NDJSON_LINES, false);
+}
+
+/**
+ * Protobuf can't be decoded without its schema, so only the size and message type are recorded
+ */
+function summarizeProtobuf(body: Uint8Array, contentType: string): any {
+  const messageType = getParameter(contentType, 'proto') || getParameter(contentType, 'messagetype');
+  return {
+    __type: 'protobuf',
+    size: body.byteLength,
+    contentType,
+    ...(messageType ? { messageType } : {}),
+  };
+}
+
+// User parsers are checked before built-ins so they can replace them
+const customParsers: RegisteredParser[] = [];
+
+function builtin(contentType: string, parse: BodyParser): RegisteredParser {
+  return { matches: createContentTypeMatcher(contentType), parse };
+}
+
+const builtinParsers: RegisteredParser[] = [
+  builtin('application/xml', parseXmlBody),
+  builtin('text/xml', parseXmlBody),
+  builtin('application/*+xml', parseXmlBody),
+  builtin('application/graphql', parseGraphqlBody),
+  builtin('application/x-ndjson', parseNdjsonBody),
+  builtin('application/ndjson', parseNdjsonBody),
+  builtin('application/jsonl', parseNdjsonBody),
+  builtin('application/cbor', decodeCbor),
+  builtin('application/msgpack', decodeMsgpack),
+  builtin('application/x-msgpack', decodeMsgpack),
+  builtin('application/vnd.msgpack', decodeMsgpack),
+  builtin('application/x-protobuf', summarizeProtobuf),
+  builtin('application/protobuf', summarizeProtobuf),
+  builtin('application/vnd.google.protobuf', summarizeProtobuf),
+];
+
+/**
+ * Register a parser for request and response bodies of a content type.
+ * Later registrations take precedence over earlier ones and over the built-in parsers.
+ * @param contentType - Media type (`application/x-protobuf`), glob (`application/*+json`) or RegExp; parameters are ignored
+ * @param parser - Receives the raw body bytes and the full content-type header
+ */
+export function registerBodyParser(contentType: string | RegExp, parser: BodyParser): void {
+  if (typeof parser !== 'function') {
+    throw new TypeError('Treblle SDK body parser must be a function');
+  }
+  customParsers.unshift({ matches: createContentTypeMatcher(contentType), parse: parser });
+}
+
+/**
+ * Find the parser for a content type
+ * @param contentType - Content-type header value
+ * @returns Matching parser, or null if the body should be handled by the default parsing
+ */
+export function findBodyParser(contentType: string): BodyParser | null {
+  const mediaType = getMediaType(contentType);
+  if (!mediaType) {
+    return null;
+  }
+  const entry = customParsers.find((p) => p.matches(mediaType)) || builtinParsers.find((p) => p.matches(mediaType));
+  return entry ? entry.parse : null;
+}
+
+/**
+ * Run a registered parser, summarizing the body if it throws
+ * @param parser - Parser from findBodyParser
+ * @param body - Raw body bytes
+ * @param contentType - Content-type header value
+ * @returns Parsed body
+ */
+export async function runBodyParser(parser: BodyParser, body: Uint8Array, contentType: string): Promise<any> {
+  try {
+    return await parser(body, contentType);
+  } catch {
+    return { __type: 'binary', size: body.byteLength, contentType };
+  }
+}
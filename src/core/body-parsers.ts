@@ -3,20 +3,111 @@
  * @description Shared request/response body parsing utilities
  */
 
+import { findBodyParser, runBodyParser } from './body-parser-registry';
+
+const DEFAULT_MAX_MULTIPART_SIZE = 10 * 1024 * 1024; // 10MB
+
+export interface RequestBodyParseOptions {
+  maxMultipartSize?: number; // Largest multipart body buffered for parsing (default: 10MB)
+}
+
+/**
+ * Read a request body into memory, giving up once it exceeds the limit
+ * @param req - Cloned request
+ * @param limit - Maximum bytes to buffer
+ * @returns Body bytes, or null if the body is larger than the limit
+ */
+async function readBodyWithLimit(req: Request, limit: number): Promise<Uint8Array | null> {
+  // Trust Content-Length when present so oversized uploads are never read
+  const declared = parseInt(req.headers.get('content-length') || '', 10);
+  if (!isNaN(declared) && declared > limit) {
+    return null;
+  }
+  if (!req.body) {
+    return new Uint8Array(0);
+  }
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    total += value.byteLength;
+    if (total > limit) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return bytes;
+}
+
+/**
+ * Parse a multipart/form-data body, keeping text fields and summarizing files
+ * @param req - Cloned request
+ * @param contentType - Request content type (carries the boundary)
+ * @param limit - Maximum bytes to buffer
+ * @returns Fields keyed by name; repeated names become arrays
+ */
+async function parseMultipartBody(req: Request, contentType: string, limit: number): Promise<any> {
+  const bytes = await readBodyWithLimit(req, limit);
+  if (!bytes) {
+    const declared = parseInt(req.headers.get('content-length') || '', 10);
+    return {
+      __type: 'multipart',
+      contentType,
+      ...(isNaN(declared) ? {} : { size: declared }),
+      message: 'Multipart body exceeds size limit'
+    };
+  }
+
+  const formData = await new Response(bytes, { headers: { 'content-type': contentType } }).formData();
+  const result: Record<string, any> = {};
+  formData.forEach((value, key) => {
+    const entry = typeof value === 'string'
+      ? value
+      : {
+        __type: 'file',
+        filename: value.name || 'unknown',
+        size: value.size,
+        mimetype: value.type || 'application/octet-stream'
+      };
+    if (Object.prototype.hasOwnProperty.call(result, key)) {
+      result[key] = Array.isArray(result[key]) ? [...result[key], entry] : [result[key], entry];
+    } else {
+      result[key] = entry;
+    }
+  });
+  return result;
+}
+
 /**
  * Helper to safely parse Next.js Request body
  * @param req - Cloned Next.js Request object
+ * @param options - Parsing limits
  * @returns Parsed request body
  */
-export async function parseNextjsRequestBody(req: Request): Promise<any> {
+export async function parseNextjsRequestBody(req: Request, options: RequestBodyParseOptions = {}): Promise<any> {
   try {
     const contentType = req.headers.get('content-type') || '';
+    const parser = findBodyParser(contentType);
     
-    if (contentType.includes('application/json')) {
+    if (parser) {
+      return await runBodyParser(parser, new Uint8Array(await req.arrayBuffer()), contentType);
+    } else if (contentType.includes('application/json')) {
       return await req.json();
     } else if (contentType.includes('multipart/form-data')) {
-      // For file uploads, just indicate it's a file
-      return { __type: 'file', contentType };
+      return await parseMultipartBody(req, contentType, options.maxMultipartSize ?? DEFAULT_MAX_MULTIPART_SIZE);
     } else if (contentType.includes('application/x-www-form-urlencoded')) {
       const formData = await req.formData();
       const result: any = {};
@@ -43,6 +134,12 @@ export async function parseNextjsResponseBody(res: Response): Promise<any> {
   try {
     const contentType = res.headers.get('content-type') || '';
     
+    // Registered parsers take precedence over the default handling
+    const parser = findBodyParser(contentType);
+    if (parser && res.body) {
+      return await runBodyParser(parser, new Uint8Array(await res.arrayBuffer()), contentType);
+    }
+    
     // Check if it's a file response
     const contentDisposition = res.headers.get('content-disposition') || '';
     const isFile = contentDisposition.includes('attachment') || 
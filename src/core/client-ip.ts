@@ -0,0 +1,268 @@
+/**
+ * @file src/core/client-ip.ts
+ * @description Client IP resolution with trusted-proxy configuration
+ */
+
+import { TreblleTrustProxy, TreblleTrustProxyPreset } from '../types';
+
+export interface ClientIpSource {
+  header: (name: string) => string | undefined; // Header value (lowercase name); repeated headers joined with commas
+  remoteAddress?: string; // Socket peer address, when the runtime exposes it
+}
+
+export interface ParsedIp {
+  version: 4 | 6;
+  value: bigint;
+}
+
+const FALLBACK_IP = '127.0.0.1';
+
+// Single-value headers set by CDNs and platforms, in order of preference
+const CLIENT_IP_HEADERS = ['cf-connecting-ip', 'true-client-ip', 'fly-client-ip'];
+
+/**
+ * Parse an IPv4 or IPv6 address (IPv4-mapped IPv6 is returned as IPv4)
+ * @param ip - Address without port or brackets
+ * @returns Version and numeric value, or null if the address is not valid
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const v4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const octets = v4.slice(1).map(Number);
+    if (octets.some((o) => o > 255)) {
+      return null;
+    }
+    return { version: 4, value: BigInt(octets.reduce((acc, o) => acc * 256 + o, 0)) };
+  }
+
+  if (!ip.includes(':') || !/^[0-9a-f:.]+$/i.test(ip)) {
+    return null;
+  }
+  let text = ip.toLowerCase();
+  // Embedded IPv4 tail (::ffff:1.2.3.4) becomes two hextets
+  const tail = text.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (tail) {
+    const embedded = parseIp(tail[1]);
+    if (!embedded) {
+      return null;
+    }
+    const n = Number(embedded.value);
+    text = `${text.slice(0, -tail[1].length)}${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(':') : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) {
+    return null;
+  }
+  const hextets = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (hextets.some((h) => !/^[0-9a-f]{1,4}$/.test(h))) {
+    return null;
+  }
+  const value = hextets.reduce((acc, h) => (acc << BigInt(16)) + BigInt(parseInt(h, 16)), BigInt(0));
+
+  // ::ffff:0:0/96 is IPv4 behind a dual-stack socket
+  if (value >> BigInt(32) === BigInt(0xffff)) {
+    return { version: 4, value: value & BigInt(0xffffffff) };
+  }
+  return { version: 6, value };
+}
+
+/**
+ * Strip ports, brackets and quotes from an address as proxies write it
+ * (`1.2.3.4:5678`, `[2001:db8::1]:443`, `"[::1]"`)
+ * @returns Bare address, or null if it is not a valid IP
+ */
+export function normalizeIp(raw: string | undefined): string | null {
+  if (!raw) {
+    return null;
+  }
+  let ip = raw.trim().replace(/^"|"$/g, '');
+  const bracketed = ip.match(/^\[([^\]]+)\](?::\d+)?$/);
+  if (bracketed) {
+    ip = bracketed[1];
+  } else if (/^[\d.]+:\d+$/.test(ip)) {
+    ip = ip.slice(0, ip.lastIndexOf(':'));
+  }
+  return parseIp(ip) ? ip : null;
+}
+
+/**
+ * Build a predicate from CIDR ranges or single addresses
+ */
+function createCidrMatcher(ranges: string[]): (ip: string) => boolean {
+  const parsed = ranges
+    .map((range) => {
+      const [address, bits] = range.trim().split('/');
+      const ip = parseIp(address);
+      if (!ip) {
+        return null;
+      }
+      const size = ip.version === 4 ? 32 : 128;
+      // Prefixes on IPv4-mapped IPv6 ranges count from the IPv6 width
+      const prefix = bits === undefined
+        ? size
+        : Math.max(0, Math.min(size, parseInt(bits, 10) - (ip.version === 4 && address.includes(':') ? 96 : 0)));
+      if (isNaN(prefix)) {
+        return null;
+      }
+      const shift = BigInt(size - prefix);
+      return { version: ip.version, shift, network: ip.value >> shift };
+    })
+    .filter((range): range is { version: 4 | 6; shift: bigint; network: bigint } => range !== null);
+
+  return (address: string) => {
+    const ip = parseIp(address);
+    return !!ip && parsed.some((range) => range.version === ip.version && ip.value >> range.shift === range.network);
+  };
+}
+
+/**
+ * Client addresses from the RFC 7239 Forwarded header, nearest proxy last
+ */
+function parseForwardedHeader(value: string): string[] {
+  return value
+    .split(',')
+    .map((element) => {
+      const match = element.match(/(?:^|;)\s*for\s*=\s*("[^"]*"|[^;,\s]+)/i);
+      return match ? match[1] : '';
+    })
+    .filter(Boolean);
+}
+
+/**
+ * Hop-by-hop address chain, client first: Forwarded if present, else X-Forwarded-For.
+ * Entries that are not IPs (`unknown`, obfuscated identifiers, spoofed junk) are kept as null
+ * so hop counting stays aligned.
+ */
+function getForwardedChain(source: ClientIpSource): Array<string | null> {
+  const forwarded = source.header('forwarded');
+  const entries = forwarded
+    ? parseForwardedHeader(forwarded)
+    : (source.header('x-forwarded-for') || '').split(',').map((entry) => entry.trim()).filter(Boolean);
+  return entries.map((entry) => normalizeIp(entry));
+}
+
+/**
+ * Client IP for a platform preset
+ */
+function resolvePresetIp(source: ClientIpSource, preset: TreblleTrustProxyPreset): string | null {
+  switch (preset) {
+    case 'vercel':
+      // Vercel overwrites these headers at the edge, so they can't be spoofed
+      return normalizeIp(source.header('x-vercel-forwarded-for')?.split(',')[0]) ||
+        normalizeIp(source.header('x-real-ip')) ||
+        normalizeIp(source.header('x-forwarded-for')?.split(',')[0]);
+    case 'cloudflare':
+      return normalizeIp(source.header('cf-connecting-ip'));
+    case 'aws-alb': {
+      // The load balancer appends the address it received the connection from
+      const chain = getForwardedChain(source);
+      return chain[chain.length - 1] ?? null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a trustProxy setting trusts any proxy at all
+ * @param trustProxy - Setting from the SDK options
+ * @returns False for `false`, `0` and an empty CIDR list
+ */
+export function isProxyTrusted(trustProxy: TreblleTrustProxy | undefined): boolean {
+  if (trustProxy === undefined) {
+    return true;
+  }
+  if (Array.isArray(trustProxy)) {
+    return trustProxy.length > 0;
+  }
+  return trustProxy !== false && trustProxy !== 0;
+}
+
+/**
+ * Whether the socket peer is a proxy whose forwarded headers may be honored
+ * @param remoteAddress - Socket peer address, when the runtime exposes it
+ * @param trustProxy - Setting from the SDK options
+ * @returns True for `true`, presets and hop counts of 1 or more; CIDR lists must contain the peer
+ */
+export function isPeerTrusted(remoteAddress: string | undefined, trustProxy: TreblleTrustProxy | undefined): boolean {
+  if (!isProxyTrusted(trustProxy)) {
+    return false;
+  }
+  if (typeof trustProxy === 'number') {
+    return trustProxy >= 1;
+  }
+  if (Array.isArray(trustProxy)) {
+    const remote = normalizeIp(remoteAddress);
+    // Without a socket address (Edge) the platform in front of us is assumed to be trusted
+    return !remote || createCidrMatcher(trustProxy)(remote);
+  }
+  return true;
+}
+
+/**
+ * Resolve the client IP, honoring forwarded headers only as far as trustProxy allows.
+ * - `true` (default): trust every proxy; platform headers, then the first Forwarded / X-Forwarded-For hop
+ * - `false`: the socket address only
+ * - number: trust that many proxies in front of the app, counting from the right of the chain
+ * - CIDR list: skip trusted proxy addresses from the right; the first untrusted one is the client
+ * - `'vercel' | 'cloudflare' | 'aws-alb'`: the header that platform sets
+ * @param source - Header accessor and socket address
+ * @param trustProxy - Trusted proxy configuration
+ * @returns Client IP (127.0.0.1 when none can be determined)
+ */
+export function resolveClientIp(source: ClientIpSource, trustProxy: TreblleTrustProxy = true): string {
+  const remote = normalizeIp(source.remoteAddress);
+  const fallback = remote || FALLBACK_IP;
+
+  if (!isProxyTrusted(trustProxy)) {
+    return fallback;
+  }
+
+  if (typeof trustProxy === 'string') {
+    return resolvePresetIp(source, trustProxy) || fallback;
+  }
+
+  if (typeof trustProxy === 'number') {
+    const chain = getForwardedChain(source);
+    if (chain.length === 0) {
+      return fallback;
+    }
+    const index = Math.max(0, chain.length - Math.floor(trustProxy));
+    return chain[index] || fallback;
+  }
+
+  if (Array.isArray(trustProxy)) {
+    const isTrusted = createCidrMatcher(trustProxy);
+    // Without a socket address (Edge) the platform in front of us is assumed to be trusted
+    if (remote && !isTrusted(remote)) {
+      return remote;
+    }
+    const chain = getForwardedChain(source);
+    for (let i = chain.length - 1; i >= 0; i--) {
+      const hop = chain[i];
+      if (!hop) {
+        return fallback; // Can't see past an unparseable hop
+      }
+      if (!isTrusted(hop) || i === 0) {
+        return hop;
+      }
+    }
+    return fallback;
+  }
+
+  for (const name of CLIENT_IP_HEADERS) {
+    const ip = normalizeIp(source.header(name));
+    if (ip) {
+      return ip;
+    }
+  }
+  const client = getForwardedChain(source).find((hop) => hop !== null);
+  return client || normalizeIp(source.header('x-real-ip')) || normalizeIp(source.header('x-client-ip')) || fallback;
+}
@@ -0,0 +1,72 @@
+/**
+ * @file src/core/cookies.ts
+ * @description Per-cookie masking for Cookie and Set-Cookie headers
+ */
+
+type CookieMasker = (value: string, name: string) => any;
+
+/**
+ * Split a combined Set-Cookie header into individual cookies.
+ * Only commas followed by `name=` start a new cookie, so `Expires=Wed, 21 Oct ...` stays intact.
+ * @param header - Set-Cookie value(s)
+ * @returns One string per cookie
+ */
+export function splitSetCookieHeader(header: string | string[]): string[] {
+  const values = Array.isArray(header) ? header : [header];
+  return values
+    .flatMap((value) => String(value).split(/,(?=\s*[^;,=\s]+=)/))
+    .map((cookie) => cookie.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Mask the value of one `name=value` pair
+ */
+function maskPair(pair: string, isSensitive: (name: string) => boolean, mask: CookieMasker): string {
+  const index = pair.indexOf('=');
+  if (index === -1) {
+    return pair;
+  }
+  const name = pair.slice(0, index).trim();
+  const value = pair.slice(index + 1).trim();
+  if (!value || !isSensitive(name)) {
+    return `${name}=${value}`;
+  }
+  return `${name}=${String(mask(value, name))}`;
+}
+
+/**
+ * Mask sensitive cookies in a request Cookie header
+ * @param header - `a=1; b=2`
+ * @param isSensitive - Whether a cookie name should be masked
+ * @param mask - Replacement for a sensitive value
+ * @returns Re-serialized header with only sensitive values masked
+ */
+export function maskCookieHeader(header: string, isSensitive: (name: string) => boolean, mask: CookieMasker): string {
+  return header
+    .split(';')
+    .map((pair) => pair.trim())
+    .filter(Boolean)
+    .map((pair) => maskPair(pair, isSensitive, mask))
+    .join('; ');
+}
+
+/**
+ * Mask sensitive cookie values in Set-Cookie header(s), keeping attributes visible
+ * @param header - Set-Cookie value, combined string, or array of values
+ * @param isSensitive - Whether a cookie name should be masked
+ * @param mask - Replacement for a sensitive value
+ * @returns Same shape as the input (string or array)
+ */
+export function maskSetCookieHeader(
+  header: string | string[],
+  isSensitive: (name: string) => boolean,
+  mask: CookieMasker
+): string | string[] {
+  const masked = splitSetCookieHeader(header).map((cookie) => {
+    // Only the first pair is the cookie; the rest are attributes (Path, Expires, SameSite...)
+    const [pair, ...attributes] = cookie.split(';');
+    return [maskPair(pair.trim(), isSensitive, mask), ...attributes.map((a) => a.trim())].join('; ');
+  });
+  return Array.isArray(header) ? masked : masked.join(', ');
+}
@@ -0,0 +1,66 @@
+/**
+ * @file src/core/field-matcher.ts
+ * @description Field-name matching for masking rules (exact, glob and RegExp)
+ */
+
+/**
+ * Normalize a field name so `api_key`, `apiKey`, `api-key` and `API_KEY` compare equal
+ * @param name - Field name
+ * @returns Lowercased name without `-`, `_` or whitespace
+ */
+export function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+/**
+ * Convert a normalized glob (`*` any run, `?` one character) into an anchored RegExp
+ */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map((ch) => {
+      if (ch === '*') {
+        return '.*';
+      }
+      if (ch === '?') {
+        return '.';
+      }
+      return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Build a predicate that tells whether a key matches any masking rule.
+ * Strings match after normalization and may contain `*`/`?` globs; RegExps test the raw key.
+ * @param fields - Field rules
+ * @returns Predicate for object keys
+ */
+export function createFieldMatcher(fields: Array<string | RegExp>): (key: string) => boolean {
+  const exact = new Set<string>();
+  const globs: RegExp[] = [];
+  const patterns: RegExp[] = [];
+
+  fields.forEach((field) => {
+    if (field instanceof RegExp) {
+      // Drop stateful flags so repeated tests don't skip matches
+      patterns.push(new RegExp(field.source, field.flags.replace(/[gy]/g, '')));
+    } else if (typeof field === 'string' && field.length > 0) {
+      const normalized = normalizeFieldName(field);
+      if (/[*?]/.test(normalized)) {
+        globs.push(globToRegExp(normalized));
+      } else {
+        exact.add(normalized);
+      }
+    }
+  });
+
+  return (key: string) => {
+    const normalized = normalizeFieldName(key);
+    if (exact.has(normalized)) {
+      return true;
+    }
+    return globs.some((glob) => glob.test(normalized)) || patterns.some((pattern) => pattern.test(key));
+  };
+}
@@ -0,0 +1,31 @@
+/**
+ * @file src/core/header-filter.ts
+ * @description Allowlist/denylist filtering of captured headers
+ */
+
+import { TreblleHeaderCaptureRule } from '../types';
+import { createFieldMatcher } from './field-matcher';
+
+/**
+ * Keep only the headers a capture rule permits
+ * @param headers - Request or response headers
+ * @param rule - Allowlist or denylist; names are case-insensitive and may use `*` globs
+ * @returns Filtered copy of the headers (the input when no rule is set)
+ */
+export function filterHeaders(headers: Record<string, any>, rule?: TreblleHeaderCaptureRule): Record<string, any> {
+  if (!rule || !headers || typeof headers !== 'object') {
+    return headers;
+  }
+
+  const matches = createFieldMatcher(rule.headers || []);
+  const keepMatches = rule.mode === 'allowlist';
+  const filtered: Record<string, any> = {};
+
+  Object.keys(headers).forEach((name) => {
+    if (matches(name) === keepMatches) {
+      filtered[name] = headers[name];
+    }
+  });
+
+  return filtered;
+}
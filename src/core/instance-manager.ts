@@ -9,6 +9,22 @@ import { TreblleOptions } from '../types';
 // Store instances by config hash to avoid creating duplicate instances
 const instances = new Map<string, Treblle>();
 
+// Transports and hooks can't be serialized, so they are keyed by object identity
+const identities = new WeakMap<object, number>();
+let nextIdentity = 0;
+
+/**
+ * Stable per-object key for the config hash
+ */
+function identityOf(value: object): string {
+  let id = identities.get(value);
+  if (id === undefined) {
+    id = ++nextIdentity;
+    identities.set(value, id);
+  }
+  return `#${id}`;
+}
+
 /**
  * Helper to get or create a Treblle instance based on config
  * @param options - Treblle configuration options
@@ -23,8 +39,33 @@ export function getTreblleInstance(options: TreblleOptions): Treblle {
     enabled: options.enabled,
     environments: options.environments,
     additionalMaskedFields: options.additionalMaskedFields,
+    piiDetection: options.piiDetection,
+    maskPaths: options.maskPaths,
+    maskingStrategy: options.maskingStrategy,
+    fieldMaskingStrategies: options.fieldMaskingStrategies,
+    maxMaskingDepth: options.maxMaskingDepth,
+    maskedCookies: options.maskedCookies,
+    maskUrlSegments: options.maskUrlSegments,
+    captureHeaders: options.captureHeaders,
+    trustProxy: options.trustProxy,
+    ipPrivacy: options.ipPrivacy,
     excludePaths: options.excludePaths,
-    includePaths: options.includePaths
+    includePaths: options.includePaths,
+    batching: options.batching,
+    retry: options.retry,
+    endpoints: options.endpoints,
+    proxy: options.proxy,
+    compression: options.compression,
+    transport: options.transport ? identityOf(options.transport) : undefined,
+    beforeSend: options.beforeSend,
+    sampling: options.sampling
+  }, (_key, value) => {
+    // Keep RegExp patterns distinguishable (they serialize to {} by default)
+    if (value instanceof RegExp) {
+      return value.toString();
+    }
+    // Hooks such as beforeSend and sampling.sampler would otherwise be dropped
+    return typeof value === 'function' ? identityOf(value) : value;
   });
   
   // Check if we already have an instance with these options
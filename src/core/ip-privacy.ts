@@ -0,0 +1,133 @@
+/**
+ * @file src/core/ip-privacy.ts
+ * @description Client IP anonymization for request.ip and IP-bearing request headers
+ */
+
+import { TreblleIpPrivacy, TreblleIpPrivacyOptions } from '../types';
+import { parseIp, normalizeIp } from './client-ip';
+import { sha256Hex } from './sha256';
+
+// Request headers that carry client (or proxy chain) addresses
+const IP_HEADERS = [
+  'x-forwarded-for',
+  'x-real-ip',
+  'x-client-ip',
+  'x-cluster-client-ip',
+  'x-vercel-forwarded-for',
+  'x-envoy-external-address',
+  'cf-connecting-ip',
+  'true-client-ip',
+  'fly-client-ip',
+  'fastly-client-ip',
+];
+
+/**
+ * Whether ipPrivacy asks for hashing without a salt. An unsalted hash of the
+ * IPv4 space can be reversed by enumeration, so it falls back to truncation.
+ * @param privacy - ipPrivacy option
+ */
+export function isUnsaltedIpHash(privacy: TreblleIpPrivacy | undefined): boolean {
+  return privacy === 'hash' || (typeof privacy === 'object' && privacy.mode === 'hash' && !privacy.salt);
+}
+
+/**
+ * Resolve the ipPrivacy option to its object form
+ */
+function getIpPrivacyOptions(privacy: TreblleIpPrivacy | undefined): TreblleIpPrivacyOptions {
+  if (!privacy) {
+    return { mode: 'full' };
+  }
+  if (isUnsaltedIpHash(privacy)) {
+    return { mode: 'truncate' };
+  }
+  return typeof privacy === 'string' ? { mode: privacy } : privacy;
+}
+
+/**
+ * Zero the host bits: IPv4 keeps /24, IPv6 keeps /48
+ */
+function truncateIp(ip: string): string | null {
+  const parsed = parseIp(ip);
+  if (!parsed) {
+    return null;
+  }
+  if (parsed.version === 4) {
+    const n = Number(parsed.value);
+    return `${n >>> 24}.${(n >>> 16) & 0xff}.${(n >>> 8) & 0xff}.0`;
+  }
+  const prefix = parsed.value >> BigInt(80);
+  const hextets = [BigInt(32), BigInt(16), BigInt(0)].map((shift) => ((prefix >> shift) & BigInt(0xffff)).toString(16));
+  return `${hextets.join(':')}::`;
+}
+
+/**
+ * Apply the ipPrivacy mode to one address
+ * @param ip - Client IP (ports and brackets are tolerated)
+ * @param privacy - ipPrivacy option
+ * @returns Anonymized address, or null when it should be omitted
+ */
+export function anonymizeIp(ip: string, privacy: TreblleIpPrivacy | undefined): string | null {
+  const { mode, salt } = getIpPrivacyOptions(privacy);
+  switch (mode) {
+    case 'omit':
+      return null;
+    case 'truncate':
+      // Anything that isn't an IP can't be truncated safely, so it is dropped
+      return truncateIp(normalizeIp(ip) || '');
+    case 'hash':
+      return `sha256:${sha256Hex(`${salt}${normalizeIp(ip) || ip}`)}`;
+    default:
+      return ip;
+  }
+}
+
+/**
+ * Anonymize the addresses in one header value (lists and RFC 7239 `for=` parameters included)
+ */
+function anonymizeHeaderValue(name: string, value: string, privacy: TreblleIpPrivacyOptions): string {
+  if (name === 'forwarded') {
+    return value.replace(/(^|[;,]\s*)(for\s*=\s*)("[^"]*"|[^;,\s]+)/gi, (_match, lead: string, key: string, address: string) => {
+      const anonymized = anonymizeIp(address, privacy);
+      if (!anonymized) {
+        return `${lead}${key}unknown`;
+      }
+      // IPv6 node names are bracketed, as RFC 7239 requires
+      return `${lead}${key}"${parseIp(anonymized)?.version === 6 ? `[${anonymized}]` : anonymized}"`;
+    });
+  }
+  return value
+    .split(',')
+    .map((entry) => anonymizeIp(entry.trim(), privacy))
+    .filter((entry): entry is string => entry !== null)
+    .join(', ');
+}
+
+/**
+ * Apply the ipPrivacy mode to IP-bearing request headers
+ * @param headers - Request headers (lowercase or mixed-case names)
+ * @param privacy - ipPrivacy option
+ * @returns New headers object; 'omit' removes the headers entirely
+ */
+export function anonymizeIpHeaders(headers: Record<string, any>, privacy: TreblleIpPrivacy | undefined): Record<string, any> {
+  const options = getIpPrivacyOptions(privacy);
+  if (!headers || typeof headers !== 'object' || options.mode === 'full') {
+    return headers;
+  }
+
+  const result: Record<string, any> = {};
+  Object.keys(headers).forEach((key) => {
+    const name = key.toLowerCase();
+    const value = headers[key];
+    if (name !== 'forwarded' && !IP_HEADERS.includes(name)) {
+      result[key] = value;
+      return;
+    }
+    if (options.mode === 'omit') {
+      return;
+    }
+    result[key] = Array.isArray(value)
+      ? value.map((v) => anonymizeHeaderValue(name, String(v), options))
+      : anonymizeHeaderValue(name, String(value), options);
+  });
+  return result;
+}
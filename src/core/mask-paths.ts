@@ -0,0 +1,109 @@
+/**
+ * @file src/core/mask-paths.ts
+ * @description Path selectors for masking specific fields of a payload section
+ */
+
+export type MaskPathScope =
+  | 'request.headers'
+  | 'request.query'
+  | 'request.body'
+  | 'response.headers'
+  | 'response.body';
+
+const SCOPES: MaskPathScope[] = [
+  'request.headers',
+  'request.query',
+  'request.body',
+  'response.headers',
+  'response.body',
+];
+
+// ".key", "[*]", "[0]", "['quoted.key']"
+const SEGMENT_PATTERN = /\.([^.[\]]+)|\[(\*|\d+|'[^']*'|"[^"]*")\]/g;
+
+/**
+ * Parse a selector such as `request.body.items[*].token`
+ * @param path - Selector starting with one of the payload scopes
+ * @returns Scope and segments, or null if the selector is invalid
+ */
+export function parseMaskPath(path: string): { scope: MaskPathScope; segments: string[] } | null {
+  const scope = SCOPES.find((s) => path.startsWith(`${s}.`) || path.startsWith(`${s}[`));
+  if (!scope) {
+    return null;
+  }
+
+  const rest = path.slice(scope.length);
+  const segments: string[] = [];
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  SEGMENT_PATTERN.lastIndex = 0;
+
+  while ((match = SEGMENT_PATTERN.exec(rest)) !== null) {
+    if (match.index !== consumed) {
+      return null;
+    }
+    consumed = SEGMENT_PATTERN.lastIndex;
+    const segment = match[1] !== undefined ? match[1] : match[2];
+    segments.push(/^['"]/.test(segment) ? segment.slice(1, -1) : segment);
+  }
+
+  return consumed === rest.length && segments.length > 0 ? { scope, segments } : null;
+}
+
+/**
+ * Select the parsed selectors that apply to one payload section
+ * @param paths - maskPaths option
+ * @param scope - Payload section being masked
+ * @returns Segment lists for the section
+ */
+export function getScopedMaskPaths(paths: string[] | undefined, scope: MaskPathScope): string[][] {
+  if (!paths || paths.length === 0) {
+    return [];
+  }
+  return paths
+    .map(parseMaskPath)
+    .filter((parsed): parsed is { scope: MaskPathScope; segments: string[] } => !!parsed && parsed.scope === scope)
+    .map((parsed) => parsed.segments);
+}
+
+/**
+ * Mask every value selected by the given selectors, in place.
+ * `*` matches any key or array index, `**` any number of levels; keys match case-insensitively.
+ * @param data - Cloned section data to mutate
+ * @param selectors - Segment lists from getScopedMaskPaths
+ * @param mask - Produces the replacement for a selected value
+ */
+export function applyMaskPaths(data: any, selectors: string[][], mask: (value: any, key: string) => any): void {
+  const walk = (node: any, segments: string[], index: number) => {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+
+    const segment = segments[index];
+    const isLast = index === segments.length - 1;
+
+    if (segment === '**' && !isLast) {
+      // Match zero levels here, then keep searching deeper
+      walk(node, segments, index + 1);
+      Object.keys(node).forEach((key) => walk(node[key], segments, index));
+      return;
+    }
+
+    const wanted = segment.toLowerCase();
+    const keys = segment === '*' || segment === '**'
+      ? Object.keys(node)
+      : Object.keys(node).filter((key) => key.toLowerCase() === wanted);
+
+    keys.forEach((key) => {
+      if (isLast) {
+        if (node[key] !== undefined && node[key] !== null && node[key] !== '') {
+          node[key] = mask(node[key], key);
+        }
+      } else {
+        walk(node[key], segments, index + 1);
+      }
+    });
+  };
+
+  selectors.forEach((segments) => walk(data, segments, 0));
+}
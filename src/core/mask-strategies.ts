@@ -0,0 +1,104 @@
+/**
+ * @file src/core/mask-strategies.ts
+ * @description Replacement strategies for masked values
+ */
+
+import { TreblleMaskingStrategy, TreblleMaskingStrategyShorthand } from '../types';
+import { sha256Hex } from './sha256';
+import { normalizeFieldName } from './field-matcher';
+
+export type Masker = (value: any, key?: string) => any;
+
+const DEFAULT_PLACEHOLDER = '[REDACTED]';
+const DEFAULT_VISIBLE_CHARS = 4;
+
+let warnedUnsaltedHash = false;
+
+/**
+ * Expand the shorthand strategy name into a full strategy.
+ * 'hash' without a salt becomes 'placeholder', since an unsalted hash of a low-entropy value can be reversed.
+ */
+function normalizeStrategy(strategy?: TreblleMaskingStrategyShorthand | TreblleMaskingStrategy): TreblleMaskingStrategy {
+  if (!strategy) {
+    return { type: 'asterisks' };
+  }
+  const normalized: TreblleMaskingStrategy = typeof strategy === 'string' ? { type: strategy } : strategy;
+  if (normalized.type === 'hash' && !normalized.salt) {
+    if (!warnedUnsaltedHash) {
+      warnedUnsaltedHash = true;
+      console.warn('[Treblle SDK] Masking strategy \'hash\' requires a salt; values are replaced with a placeholder instead');
+    }
+    return { type: 'placeholder' };
+  }
+  return normalized;
+}
+
+/**
+ * Text form of a value for partial reveal and hashing
+ */
+function stringify(value: any): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  try {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Replace a sensitive value using a strategy
+ * @param value - Value to mask
+ * @param strategy - How to replace it
+ * @returns Masked value
+ */
+export function applyMaskingStrategy(value: any, strategy: TreblleMaskingStrategy): any {
+  switch (strategy.type) {
+    case 'placeholder':
+      return strategy.placeholder ?? DEFAULT_PLACEHOLDER;
+
+    case 'partial': {
+      if (typeof value !== 'string' && typeof value !== 'number') {
+        return '*****';
+      }
+      const text = String(value);
+      const visible = Math.max(0, strategy.visibleChars ?? DEFAULT_VISIBLE_CHARS);
+      // Short values would be revealed entirely
+      if (text.length <= visible) {
+        return '*'.repeat(text.length);
+      }
+      return '*'.repeat(text.length - visible) + (visible > 0 ? text.slice(-visible) : '');
+    }
+
+    case 'hash':
+      // Deterministic, so the same value can be correlated across requests
+      return `sha256:${sha256Hex(`${strategy.salt}${stringify(value)}`)}`;
+
+    case 'asterisks':
+    default:
+      return typeof value === 'string' ? '*'.repeat(value.length) : '*****';
+  }
+}
+
+/**
+ * Build the function that masks a value, honoring per-field overrides
+ * @param strategy - Global strategy (default: asterisks)
+ * @param fieldStrategies - Strategies keyed by field name (case and separators ignored)
+ * @returns Masker taking the value and the key it was found under
+ */
+export function createMasker(
+  strategy?: TreblleMaskingStrategyShorthand | TreblleMaskingStrategy,
+  fieldStrategies?: Record<string, TreblleMaskingStrategyShorthand | TreblleMaskingStrategy>
+): Masker {
+  const globalStrategy = normalizeStrategy(strategy);
+  const overrides = new Map<string, TreblleMaskingStrategy>();
+  Object.keys(fieldStrategies || {}).forEach((field) => {
+    overrides.set(normalizeFieldName(field), normalizeStrategy(fieldStrategies![field]));
+  });
+
+  return (value: any, key?: string) => {
+    const fieldStrategy = key !== undefined ? overrides.get(normalizeFieldName(key)) : undefined;
+    return applyMaskingStrategy(value, fieldStrategy || globalStrategy);
+  };
+}
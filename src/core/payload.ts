@@ -4,7 +4,11 @@
  */
 
 import { TreblleOptions, TreblleError } from '../types';
-import { maskSensitiveData } from '../masking';
+import { maskSensitiveData, getMaskingOptions } from '../masking';
+import { MaskPathScope } from './mask-paths';
+import { filterHeaders } from './header-filter';
+import { anonymizeIp, anonymizeIpHeaders } from './ip-privacy';
+import { maskRequestUrl, maskUrlPath } from './url-masking';
 import { getServerIp, calculateResponseSize } from '../utils';
 import { processPayloadWithSizeCheck, PayloadSizeOptions } from './payload-size';
 import { getSdkVersionFloat } from './version';
@@ -27,6 +31,13 @@ export interface PayloadResponse {
   size: number;
   load_time: number;
   body: any;
+  timing?: PayloadTiming; // Breakdown of load_time, when the integration measures it
+}
+
+export interface PayloadTiming {
+  handler_time: number; // Until the handler returned, in microseconds
+  time_to_first_byte: number | null; // Until the first body byte was sent, in microseconds
+  total_time: number; // Until the response finished (streams included), in microseconds
 }
 
 export interface PayloadInput {
@@ -47,6 +58,9 @@ export interface PayloadInput {
  */
 export function buildTrebllePayload(input: PayloadInput): any {
   const sizeOptions = input.sizeOptions || {};
+  // Mask one payload section with its scoped maskPaths
+  const maskSection = (data: any, scope: MaskPathScope) =>
+    maskSensitiveData(data, input.options.additionalMaskedFields, getMaskingOptions(input.options, scope));
   const isEmptyObject = (v: any) => v && typeof v === 'object' && !Array.isArray(v) && Object.keys(v).length === 0;
   
   // Process request and response bodies with size checking
@@ -54,12 +68,12 @@ export function buildTrebllePayload(input: PayloadInput): any {
     ? input.request.query
     : input.request.body;
   const processedRequestBody = processPayloadWithSizeCheck(
-    maskSensitiveData(rawRequestBody, input.options.additionalMaskedFields),
+    maskSection(rawRequestBody, 'request.body'),
     sizeOptions
   );
   
   const processedResponseBody = processPayloadWithSizeCheck(
-    maskSensitiveData(input.response.body, input.options.additionalMaskedFields),
+    maskSection(input.response.body, 'response.body'),
     sizeOptions
   );
   
@@ -87,23 +101,28 @@ export function buildTrebllePayload(input: PayloadInput): any {
       },
       request: {
         timestamp: input.request.timestamp,
-        ip: input.request.ip,
-        url: input.request.url,
-        route_path: input.request.route_path,
+        ip: anonymizeIp(input.request.ip, input.options.ipPrivacy) ?? '',
+        url: maskRequestUrl(input.request.url, input.options),
+        route_path: maskUrlPath(input.request.route_path, input.options),
         user_agent: input.request.user_agent,
         method: input.request.method,
-        headers: maskSensitiveData(input.request.headers, input.options.additionalMaskedFields),
-        query: maskSensitiveData(input.request.query, input.options.additionalMaskedFields),
+        headers: maskSection(
+          anonymizeIpHeaders(filterHeaders(input.request.headers, input.options.captureHeaders?.request), input.options.ipPrivacy),
+          'request.headers'
+        ),
+        query: maskSection(input.request.query, 'request.query'),
         body: isEmptyObject(processedRequestBody) ? null : processedRequestBody
       },
       response: {
-        headers: maskSensitiveData(input.response.headers, input.options.additionalMaskedFields),
+        headers: maskSection(filterHeaders(input.response.headers, input.options.captureHeaders?.response), 'response.headers'),
         code: input.response.code,
-        size: input.responseObject ? 
-          calculateResponseSize(input.response.body, input.responseObject) : 
-          input.response.size,
+        // Bytes counted by the integration (streamed bodies) take precedence over estimates
+        size: input.response.size > 0 || !input.responseObject ?
+          input.response.size :
+          calculateResponseSize(input.response.body, input.responseObject),
         load_time: input.response.load_time,
-        body: isEmptyObject(processedResponseBody) ? null : processedResponseBody
+        body: isEmptyObject(processedResponseBody) ? null : processedResponseBody,
+        ...(input.response.timing ? { timing: input.response.timing } : {})
       },
       errors: input.errors
     }
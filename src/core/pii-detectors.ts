@@ -0,0 +1,141 @@
+/**
+ * @file src/core/pii-detectors.ts
+ * @description Value-pattern detectors that find PII inside free-text string values
+ */
+
+import { TrebllePiiDetectionOptions, BuiltinPiiDetector } from '../types';
+
+export interface ValueDetector {
+  name: string;
+  pattern: RegExp; // Must be global
+  validate?: (match: string) => boolean; // Reject false positives (checksums etc.)
+}
+
+/**
+ * Luhn checksum used by payment card numbers
+ * @param digits - Digits only
+ * @returns True if the checksum is valid
+ */
+export function isValidLuhn(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let n = digits.charCodeAt(i) - 48;
+    if (double) {
+      n *= 2;
+      if (n > 9) {
+        n -= 9;
+      }
+    }
+    sum += n;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 mod-97 check used by IBANs
+ * @param iban - IBAN with or without spaces
+ * @returns True if the check digits are valid
+ */
+export function isValidIban(iban: string): boolean {
+  const compact = iban.replace(/\s+/g, '').toUpperCase();
+  if (compact.length < 15 || compact.length > 34) {
+    return false;
+  }
+  const rearranged = compact.slice(4) + compact.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    // Letters expand to two digits (A=10 ... Z=35)
+    const value = ch >= 'A' && ch <= 'Z' ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) {
+      remainder = (remainder * 10 + (digit.charCodeAt(0) - 48)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+const BUILTIN_DETECTORS: Record<BuiltinPiiDetector, ValueDetector> = {
+  bearer: {
+    name: 'bearer',
+    // Keep the scheme so the value still reads as an auth header
+    pattern: /(?<keep>\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+  },
+  jwt: {
+    name: 'jwt',
+    pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  creditCard: {
+    name: 'creditCard',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && isValidLuhn(digits);
+    },
+  },
+  iban: {
+    name: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: isValidIban,
+  },
+  ssn: {
+    name: 'ssn',
+    pattern: /\b(?!000|666|9\d\d)\d{3}([- ])(?!00)\d{2}\1(?!0000)\d{4}\b/g,
+  },
+  email: {
+    name: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+};
+
+/**
+ * Turn the piiDetection option into the list of detectors to run
+ * @param options - `true` for every built-in detector, or per-detector toggles
+ * @returns Detectors in the order they should be applied
+ */
+export function resolvePiiDetectors(options?: boolean | TrebllePiiDetectionOptions): ValueDetector[] {
+  if (!options) {
+    return [];
+  }
+
+  const config: TrebllePiiDetectionOptions = options === true ? {} : options;
+  const detectors = (Object.keys(BUILTIN_DETECTORS) as BuiltinPiiDetector[])
+    .filter((name) => config[name] !== false)
+    .map((name) => BUILTIN_DETECTORS[name]);
+
+  (config.custom || []).forEach((entry, index) => {
+    const pattern = entry instanceof RegExp ? entry : entry.pattern;
+    const name = entry instanceof RegExp ? `custom_${index}` : (entry.name || `custom_${index}`);
+    // Global flag is required to mask every occurrence
+    const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+    detectors.push({ name, pattern: new RegExp(pattern.source, flags) });
+  });
+
+  return detectors;
+}
+
+/**
+ * Mask every detector match inside a string
+ * @param value - String to scan
+ * @param detectors - Detectors from resolvePiiDetectors
+ * @param mask - Replacement for a match (default: asterisks of the same length)
+ * @returns String with matches replaced
+ */
+export function maskPiiInString(
+  value: string,
+  detectors: ValueDetector[],
+  mask: (match: string) => any = (match) => '*'.repeat(match.length)
+): string {
+  let result = value;
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, (match: string, ...args: any[]) => {
+      if (match.length === 0 || (detector.validate && !detector.validate(match))) {
+        return match;
+      }
+      const groups = args[args.length - 1];
+      const keep = groups && typeof groups === 'object' && typeof groups.keep === 'string' ? groups.keep : '';
+      return keep + String(mask(match.slice(keep.length)));
+    });
+  }
+  return result;
+}
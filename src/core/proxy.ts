@@ -0,0 +1,143 @@
+/**
+ * @file src/core/proxy.ts
+ * @description HTTP(S) proxy resolution and CONNECT tunnelling for the Node transport
+ */
+
+/**
+ * Read an environment variable in either case, Edge-safe
+ */
+function readEnv(name: string): string | undefined {
+  if (typeof process === 'undefined' || !process.env) {
+    return undefined;
+  }
+  return process.env[name] || process.env[name.toLowerCase()] || undefined;
+}
+
+/**
+ * Check whether a host is excluded from proxying by a NO_PROXY list
+ * @param hostname - Target hostname
+ * @param port - Target port (may be empty)
+ * @param noProxy - Comma or space separated NO_PROXY value
+ * @returns True if the proxy should be bypassed
+ */
+export function shouldBypassProxy(hostname: string, port: string, noProxy: string | undefined): boolean {
+  if (!noProxy) {
+    return false;
+  }
+
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const entries = noProxy.split(/[\s,]+/).map((e) => e.trim().toLowerCase()).filter(Boolean);
+
+  return entries.some((entry) => {
+    if (entry === '*') {
+      return true;
+    }
+
+    // Entries may carry a port: "example.com:8443"
+    let entryHost = entry;
+    const portMatch = entry.match(/^(.*):(\d+)$/);
+    if (portMatch && !entry.includes('::')) {
+      if (portMatch[2] !== port) {
+        return false;
+      }
+      entryHost = portMatch[1];
+    }
+
+    // ".example.com" and "*.example.com" match subdomains and the domain itself
+    entryHost = entryHost.replace(/^\*?\./, '');
+    return host === entryHost || host.endsWith(`.${entryHost}`);
+  });
+}
+
+/**
+ * Resolve the proxy to use for a target URL
+ * @param target - Destination URL
+ * @param explicit - Proxy from options; `false` disables proxying, undefined falls back to env
+ * @returns Proxy URL or null when the request should go direct
+ */
+export function getProxyForUrl(target: URL, explicit?: string | false): URL | null {
+  if (explicit === false) {
+    return null;
+  }
+
+  // URL leaves the port empty when it is the protocol default, but NO_PROXY entries may spell it out
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const noProxy = readEnv('NO_PROXY');
+  if (shouldBypassProxy(target.hostname, port, noProxy)) {
+    return null;
+  }
+
+  const raw = explicit ||
+    (target.protocol === 'https:' ? readEnv('HTTPS_PROXY') : readEnv('HTTP_PROXY')) ||
+    readEnv('ALL_PROXY');
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    // Bare "host:port" values are common in env vars
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(raw) ? raw : `http://${raw}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build a Proxy-Authorization header from credentials embedded in the proxy URL
+ */
+export function getProxyAuthHeader(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy and wrap it in TLS for the target
+ * @param proxy - Proxy URL (http: or https:)
+ * @param target - HTTPS destination
+ * @param timeoutMs - Time allowed to establish the tunnel
+ * @returns TLS socket connected to the target through the proxy
+ */
+export function openProxyTunnel(proxy: URL, target: URL, timeoutMs: number): Promise<any> {
+  // Node only: loaded lazily to keep Edge bundles free of Node built-ins
+  // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+  const transport = proxy.protocol === 'https:' ? require('https') : require('http');
+  // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+  const tls = require('tls');
+
+  const targetPort = target.port || '443';
+  const authority = `${target.hostname}:${targetPort}`;
+  const headers: Record<string, string> = { Host: authority };
+  const auth = getProxyAuthHeader(proxy);
+  if (auth) {
+    headers['Proxy-Authorization'] = auth;
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = transport.request({
+      method: 'CONNECT',
+      hostname: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      path: authority,
+      headers,
+    });
+
+    req.setTimeout(timeoutMs, () => {
+      req.destroy(new Error('Proxy CONNECT timed out'));
+    });
+
+    req.on('connect', (res: any, socket: any) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        reject(new Error(`Proxy CONNECT failed with status ${res.statusCode}`));
+        return;
+      }
+      resolve(tls.connect({ socket, servername: target.hostname }));
+    });
+
+    req.on('error', reject);
+    req.end();
+  });
+}
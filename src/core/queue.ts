@@ -0,0 +1,124 @@
+/**
+ * @file src/core/queue.ts
+ * @description In-memory batching queue for captured payloads
+ */
+
+export interface PayloadQueueOptions {
+  batchSize?: number; // Payloads per batch (default: 10)
+  flushInterval?: number; // Milliseconds between periodic flushes (default: 1000)
+  maxQueueSize?: number; // Maximum queued payloads before dropping the oldest (default: 100)
+  onDrop?: (payload: any) => void; // Called for every payload dropped due to a full queue
+}
+
+export type BatchSender = (batch: any[]) => void | Promise<void>;
+
+const DEFAULT_BATCH_SIZE = 10;
+const DEFAULT_FLUSH_INTERVAL = 1000;
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+/**
+ * Bounded FIFO queue that hands payloads to a sender in batches, either when a
+ * batch fills up or when the flush interval elapses, whichever comes first.
+ */
+export class PayloadQueue {
+  private readonly sender: BatchSender;
+  private readonly batchSize: number;
+  private readonly flushInterval: number;
+  private readonly maxQueueSize: number;
+  private readonly onDrop?: (payload: any) => void;
+  private items: any[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private droppedCount = 0;
+
+  constructor(sender: BatchSender, options: PayloadQueueOptions = {}) {
+    this.sender = sender;
+    this.batchSize = Math.max(1, options.batchSize || DEFAULT_BATCH_SIZE);
+    this.flushInterval = Math.max(0, options.flushInterval ?? DEFAULT_FLUSH_INTERVAL);
+    this.maxQueueSize = Math.max(this.batchSize, options.maxQueueSize || DEFAULT_MAX_QUEUE_SIZE);
+    this.onDrop = options.onDrop;
+  }
+
+  /**
+   * Add a payload to the queue, dropping the oldest entry when full
+   * @param payload - Payload to enqueue
+   */
+  push(payload: any): void {
+    if (this.items.length >= this.maxQueueSize) {
+      const dropped = this.items.shift();
+      this.droppedCount++;
+      if (this.onDrop) {
+        this.onDrop(dropped);
+      }
+    }
+
+    this.items.push(payload);
+
+    if (this.items.length >= this.batchSize) {
+      void this.flush();
+    } else {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Hand every queued payload to the sender in batches
+   * @returns Promise that settles once all batches have been handed off
+   */
+  async flush(): Promise<void> {
+    this.cancelTimer();
+
+    const pending: Promise<void>[] = [];
+    while (this.items.length > 0) {
+      const batch = this.items.splice(0, this.batchSize);
+      try {
+        pending.push(Promise.resolve(this.sender(batch)));
+      } catch {
+        // Sender errors must never break the host application
+      }
+    }
+
+    await Promise.all(pending.map((p) => p.catch(() => undefined)));
+  }
+
+  /**
+   * Stop the periodic flush timer without sending anything
+   */
+  stop(): void {
+    this.cancelTimer();
+  }
+
+  /**
+   * Number of payloads currently queued
+   */
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Number of payloads dropped because the queue was full
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  private schedule(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.flushInterval);
+    // Never keep a Node process alive just to flush telemetry
+    if (this.timer && typeof (this.timer as any).unref === 'function') {
+      (this.timer as any).unref();
+    }
+  }
+
+  private cancelTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * @file src/core/request-url.ts
+ * @description Absolute URL reconstruction for Node.js requests, and basePath/locale handling for route paths
+ */
+
+import { TreblleTrustProxy } from '../types';
+import { isPeerTrusted } from './client-ip';
+
+export interface RequestUrlOptions {
+  trustProxy?: TreblleTrustProxy; // X-Forwarded-Proto / X-Forwarded-Host are honored only from a trusted peer (default: true)
+  basePath?: string; // Next.js basePath, added back when the request path omits it
+}
+
+export interface PathPrefixOptions {
+  basePath?: string;
+  locales?: string[];
+}
+
+/**
+ * First value of a header that proxies may send as a list or repeat
+ */
+function firstHeaderValue(value: unknown): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  if (typeof raw !== 'string') {
+    return undefined;
+  }
+  const first = raw.split(',')[0].trim();
+  return first || undefined;
+}
+
+/**
+ * Normalize a basePath to `/docs` form (empty when unset or `/`)
+ */
+function normalizeBasePath(basePath?: string): string {
+  if (!basePath) {
+    return '';
+  }
+  const trimmed = basePath.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+function hasPathPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`) || pathname.startsWith(`${prefix}?`);
+}
+
+/**
+ * Reconstruct the absolute URL a client requested from a Node.js request
+ * @param req - IncomingMessage-like request (`url`, `headers`, `socket`)
+ * @param options - Proxy trust and basePath
+ * @returns Absolute URL, e.g. `https://api.example.com/docs/api/users?x=1`
+ */
+export function getAbsoluteRequestUrl(req: any, options: RequestUrlOptions = {}): string {
+  const path: string = req.url || '/';
+  if (/^https?:\/\//i.test(path)) {
+    return path;
+  }
+
+  const headers = req.headers || {};
+  const socket = req.socket || req.connection;
+  const trustProxy = isPeerTrusted(socket?.remoteAddress, options.trustProxy);
+
+  const forwardedProto = trustProxy ? firstHeaderValue(headers['x-forwarded-proto'])?.toLowerCase() : undefined;
+  const protocol = forwardedProto === 'https' || forwardedProto === 'http'
+    ? forwardedProto
+    : socket?.encrypted ? 'https' : 'http';
+
+  const host = (trustProxy ? firstHeaderValue(headers['x-forwarded-host']) : undefined) ||
+    firstHeaderValue(headers.host) ||
+    'localhost';
+
+  const basePath = normalizeBasePath(options.basePath);
+  const fullPath = basePath && !hasPathPrefix(path, basePath) ? `${basePath}${path}` : path;
+
+  return `${protocol}://${host}${fullPath.startsWith('/') ? '' : '/'}${fullPath}`;
+}
+
+/**
+ * Remove the basePath and a leading i18n locale segment so a path lines up with route templates
+ * @param pathname - Request path without query string
+ * @param options - basePath and configured locales
+ * @returns Path as Next.js routes it, e.g. `/docs/fr/api/users` -> `/api/users`
+ */
+export function stripPathPrefixes(pathname: string, options: PathPrefixOptions): string {
+  let path = pathname;
+
+  const basePath = normalizeBasePath(options.basePath);
+  if (basePath && hasPathPrefix(path, basePath)) {
+    path = path.slice(basePath.length) || '/';
+  }
+
+  if (options.locales && options.locales.length > 0) {
+    const first = path.split('/')[1] || '';
+    const locale = options.locales.find((l) => l.toLowerCase() === first.toLowerCase());
+    if (locale) {
+      path = path.slice(first.length + 1) || '/';
+    }
+  }
+
+  return path;
+}
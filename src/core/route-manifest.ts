@@ -0,0 +1,284 @@
+/**
+ * @file src/core/route-manifest.ts
+ * @description Route template resolution from Next.js build manifests, with a params-based fallback
+ */
+
+export type RouteManifestKind = 'app' | 'pages';
+
+export type RouteParams = Record<string, string | string[] | undefined>;
+
+export interface RouteResolveOptions {
+  kind: RouteManifestKind;
+  params?: RouteParams; // Dynamic params Next.js resolved for this request
+  distDir?: string; // Next.js build directory, relative to the working directory (default: .next)
+}
+
+type SegmentKind = 'static' | 'dynamic' | 'catchAll' | 'optionalCatchAll';
+
+interface ManifestCache {
+  templates: string[];
+  mtimeMs: number;
+  checkedAt: number;
+  loading: Promise<string[]> | null;
+}
+
+const MANIFEST_FILES: Record<RouteManifestKind, string> = {
+  app: 'app-paths-manifest.json',
+  pages: 'pages-manifest.json',
+};
+
+// Minimum time between re-reads after a miss, so new dev-server routes are picked up without stat-ing every request
+const RELOAD_INTERVAL_MS = 2000;
+
+// Higher ranks win when several templates match, as in Next.js's own routing
+const SEGMENT_RANK: Record<SegmentKind, number> = {
+  static: 3,
+  dynamic: 2,
+  catchAll: 1,
+  optionalCatchAll: 0,
+};
+
+const manifestCache = new Map<string, ManifestCache>();
+
+/**
+ * Classify one template segment (`users`, `[id]`, `[...slug]`, `[[...slug]]`)
+ */
+function getSegmentKind(segment: string): SegmentKind {
+  if (segment.startsWith('[[...') && segment.endsWith(']]')) {
+    return 'optionalCatchAll';
+  }
+  if (segment.startsWith('[...') && segment.endsWith(']')) {
+    return 'catchAll';
+  }
+  if (segment.startsWith('[') && segment.endsWith(']')) {
+    return 'dynamic';
+  }
+  return 'static';
+}
+
+function splitPath(pathname: string): string[] {
+  return pathname.split('/').filter(Boolean);
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Turn an app-paths-manifest key into the URL template it serves.
+ * Route groups `(group)` and parallel slots `@slot` don't appear in URLs, so they are dropped.
+ * @param entry - Manifest key, e.g. `/(shop)/api/cart/[id]/route`
+ * @returns `/api/cart/[id]`, or null for entries that are not route handlers
+ */
+export function normalizeAppRouteEntry(entry: string): string | null {
+  const segments = splitPath(entry);
+  if (segments.pop() !== 'route') {
+    return null;
+  }
+  const visible = segments.filter((segment) =>
+    !(segment.startsWith('(') && segment.endsWith(')')) && !segment.startsWith('@')
+  );
+  return `/${visible.join('/')}`;
+}
+
+/**
+ * Absolute manifest path, or null outside Node
+ */
+function getManifestFile(kind: RouteManifestKind, distDir: string): string | null {
+  if (typeof process === 'undefined' || !process.versions?.node || typeof process.cwd !== 'function') {
+    return null;
+  }
+  // Node only: loaded lazily to keep Edge bundles free of Node built-ins
+  // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+  const path = require('path');
+  return path.resolve(process.cwd(), distDir, 'server', MANIFEST_FILES[kind]);
+}
+
+/**
+ * Re-read a manifest file into its cache entry if it changed (Node only).
+ * A missing or unreadable manifest leaves no templates.
+ */
+async function readManifest(kind: RouteManifestKind, file: string, entry: ManifestCache): Promise<void> {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+    const fs = require('fs');
+    const { mtimeMs } = await fs.promises.stat(file);
+    if (mtimeMs === entry.mtimeMs) {
+      return;
+    }
+    const manifest = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+    const templates = Object.keys(manifest)
+      .map((key) => (kind === 'app' ? normalizeAppRouteEntry(key) : key))
+      // Pages manifests also list pages and _app/_document; only API routes can be wrapped
+      .filter((template): template is string => !!template && (kind === 'app' || template.startsWith('/api')));
+    entry.templates = Array.from(new Set(templates));
+    entry.mtimeMs = mtimeMs;
+  } catch {
+    entry.templates = [];
+    entry.mtimeMs = -1;
+  }
+}
+
+/**
+ * Load the route templates Next.js built for this app.
+ * Reads are asynchronous and shared, so requests never wait on the file system.
+ * @param kind - App Router (`app-paths-manifest.json`) or Pages Router (`pages-manifest.json`)
+ * @param distDir - Build directory (default: .next)
+ * @param refresh - Re-read the manifest if it changed (throttled)
+ * @returns Route templates, or an empty list outside Node or before a build
+ */
+export function loadRouteTemplates(kind: RouteManifestKind, distDir = '.next', refresh = false): Promise<string[]> {
+  const file = getManifestFile(kind, distDir);
+  if (!file) {
+    return Promise.resolve([]);
+  }
+  const cached = manifestCache.get(file);
+  if (cached?.loading) {
+    return cached.loading;
+  }
+  if (cached && (!refresh || Date.now() - cached.checkedAt < RELOAD_INTERVAL_MS)) {
+    return Promise.resolve(cached.templates);
+  }
+
+  const entry: ManifestCache = cached || { templates: [], mtimeMs: -1, checkedAt: 0, loading: null };
+  entry.checkedAt = Date.now();
+  entry.loading = readManifest(kind, file, entry).then(() => {
+    entry.loading = null;
+    return entry.templates;
+  });
+  manifestCache.set(file, entry);
+  return entry.loading;
+}
+
+/**
+ * Route templates loaded so far; the first call starts loading them in the background
+ */
+function getLoadedRouteTemplates(kind: RouteManifestKind, distDir = '.next'): string[] {
+  const file = getManifestFile(kind, distDir);
+  const cached = file ? manifestCache.get(file) : undefined;
+  if (!cached) {
+    void loadRouteTemplates(kind, distDir);
+    return [];
+  }
+  return cached.templates;
+}
+
+/**
+ * Rank of a template against a path, or null if it does not match
+ */
+function rankMatch(templateSegments: string[], pathSegments: string[]): number[] | null {
+  const ranks: number[] = [];
+  for (let i = 0; i < templateSegments.length; i++) {
+    const segment = templateSegments[i];
+    const kind = getSegmentKind(segment);
+    ranks.push(SEGMENT_RANK[kind]);
+
+    if (kind === 'catchAll' || kind === 'optionalCatchAll') {
+      const remaining = pathSegments.length - i;
+      // Catch-alls must be last; the required form needs at least one segment
+      return i === templateSegments.length - 1 && (remaining > 0 || kind === 'optionalCatchAll') ? ranks : null;
+    }
+    if (i >= pathSegments.length) {
+      return null;
+    }
+    if (kind === 'static' && segment !== decodeSegment(pathSegments[i])) {
+      return null;
+    }
+  }
+  return templateSegments.length === pathSegments.length ? ranks : null;
+}
+
+function compareRanks(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] ?? -1) - (b[i] ?? -1);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Find the most specific template matching a path, comparing segment by segment
+ * @param pathname - Request path
+ * @param templates - Route templates such as `/api/users/[id]`
+ * @returns Matching template, or null
+ */
+export function matchRouteTemplate(pathname: string, templates: string[]): string | null {
+  const pathSegments = splitPath(pathname);
+  let best: string | null = null;
+  let bestRanks: number[] = [];
+
+  for (const template of templates) {
+    const ranks = rankMatch(splitPath(template), pathSegments);
+    if (ranks && (best === null || compareRanks(ranks, bestRanks) > 0)) {
+      best = template;
+      bestRanks = ranks;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Rebuild a template by assigning params to path segments in order, left to right.
+ * Each param claims the first matching segment after the previous one, so repeated values
+ * (`/users/1/posts/1`) land on the right segments.
+ * @param pathname - Request path
+ * @param params - Dynamic params in route order
+ * @returns Path with matched segments replaced by `[name]` / `[...name]`
+ */
+export function assignRouteParams(pathname: string, params: RouteParams): string {
+  const segments = splitPath(pathname);
+  let cursor = 0;
+
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined) {
+      // Only an optional catch-all can be present without a value
+      segments.push(`[[...${key}]]`);
+      cursor = segments.length;
+      return;
+    }
+
+    const values = (Array.isArray(value) ? value : [value]).map(String);
+    if (values.length === 0) {
+      return;
+    }
+    for (let i = cursor; i + values.length <= segments.length; i++) {
+      if (values.every((v, offset) => decodeSegment(segments[i + offset]) === v)) {
+        segments.splice(i, values.length, Array.isArray(value) ? `[...${key}]` : `[${key}]`);
+        cursor = i + 1;
+        return;
+      }
+    }
+  });
+
+  return `/${segments.join('/')}`;
+}
+
+/**
+ * Resolve the route template for a request path.
+ * The Next.js build manifest is matched first; without one (Edge, no build output, or before it has loaded) params are assigned in order.
+ * @param pathname - Request path, without basePath or query string
+ * @param options - Router kind, params and build directory
+ * @returns Route template, e.g. `/api/users/[id]`
+ */
+export function resolveRouteTemplate(pathname: string, options: RouteResolveOptions): string {
+  const normalized = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+
+  const match = matchRouteTemplate(normalized, getLoadedRouteTemplates(options.kind, options.distDir));
+  if (match) {
+    return match;
+  }
+  // Pick up routes added since the last read (dev server) for later requests
+  void loadRouteTemplates(options.kind, options.distDir, true);
+
+  if (options.params && Object.keys(options.params).length > 0) {
+    return assignRouteParams(normalized, options.params);
+  }
+  return normalized;
+}
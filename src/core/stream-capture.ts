@@ -0,0 +1,236 @@
+/**
+ * @file src/core/stream-capture.ts
+ * @description Pass-through capture of streaming response bodies (SSE, NDJSON, text)
+ */
+
+export interface StreamCaptureOptions {
+  contentType: string;
+  maxBytes?: number; // Bytes kept for the payload (default: 64KB); the rest passes through uncaptured
+  maxEvents?: number; // SSE events / NDJSON lines kept (default: 100)
+  elapsed?: () => number; // Time since request start, in the caller's unit
+  timeoutMs?: number; // Report what was captured if the stream has not ended by then (default: 30s)
+}
+
+export interface StreamCaptureResult {
+  body: any; // Parsed capture for the payload
+  bytes: Uint8Array; // Raw captured bytes (at most maxBytes)
+  totalBytes: number;
+  chunkCount: number;
+  timeToFirstByte: number | null; // Caller's unit; null when no bytes were sent
+  duration: number; // Caller's unit, when the stream finished
+  completed: boolean; // False if the stream errored, was cancelled or outlived timeoutMs
+}
+
+const DEFAULT_MAX_BYTES = 64 * 1024;
+const DEFAULT_MAX_EVENTS = 100;
+const DEFAULT_TIMEOUT_MS = 30000;
+const NDJSON_TYPES = ['ndjson', 'jsonl', 'jsonlines', 'json-seq'];
+
+/**
+ * Whether a response streams its body: chunked transfer, Server-Sent Events, NDJSON or another `*stream` type
+ * @param contentType - Response Content-Type
+ * @param transferEncoding - Response Transfer-Encoding, if any
+ */
+export function isStreamingResponse(contentType: string, transferEncoding?: string | null): boolean {
+  const type = contentType.toLowerCase();
+  return transferEncoding === 'chunked' ||
+    NDJSON_TYPES.some((ndjson) => type.includes(ndjson)) ||
+    type.includes('stream');
+}
+
+/**
+ * Parse a JSON string, returning the original text when it is not JSON
+ */
+function tryParseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Parse Server-Sent Events text into event objects
+ * @param text - Captured event-stream text
+ * @param maxEvents - Maximum events to return
+ * @param truncated - Whether the capture was cut short (drops the trailing partial event)
+ * @returns Parsed events
+ */
+export function parseSseEvents(text: string, maxEvents: number, truncated: boolean): any[] {
+  const blocks = text.split(/\r?\n\r?\n/);
+  // The last block is incomplete unless the stream ended on a blank line
+  if (truncated || blocks[blocks.length - 1] !== '') {
+    blocks.pop();
+  }
+
+  const events: any[] = [];
+  for (const block of blocks) {
+    if (events.length >= maxEvents) {
+      break;
+    }
+    const event: Record<string, any> = {};
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach((line) => {
+      if (!line || line.startsWith(':')) {
+        return; // Comment or keep-alive
+      }
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+      if (field === 'data') {
+        data.push(value);
+      } else if (field === 'event' || field === 'id' || field === 'retry') {
+        event[field] = value;
+      }
+    });
+    if (data.length > 0) {
+      event.data = tryParseJson(data.join('\n'));
+    }
+    if (Object.keys(event).length > 0) {
+      events.push(event);
+    }
+  }
+  return events;
+}
+
+/**
+ * Parse newline-delimited JSON text into values
+ * @param text - Captured NDJSON text
+ * @param maxLines - Maximum lines to return
+ * @param truncated - Whether the capture was cut short (drops the trailing partial line)
+ * @returns Parsed lines (non-JSON lines are kept as strings)
+ */
+export function parseNdjsonLines(text: string, maxLines: number, truncated: boolean): any[] {
+  const lines = text.split(/\r?\n/);
+  if (truncated) {
+    lines.pop();
+  }
+  return lines
+    .filter((line) => line.trim() !== '')
+    .slice(0, maxLines)
+    .map(tryParseJson);
+}
+
+/**
+ * Build the payload body from the captured bytes
+ */
+function describeCapture(
+  bytes: Uint8Array,
+  truncated: boolean,
+  options: StreamCaptureOptions,
+  maxEvents: number
+): any {
+  const text = new TextDecoder().decode(bytes);
+  const contentType = options.contentType.toLowerCase();
+
+  if (contentType.includes('text/event-stream')) {
+    return { format: 'sse', events: parseSseEvents(text, maxEvents, truncated) };
+  }
+  if (NDJSON_TYPES.some((type) => contentType.includes(type))) {
+    return { format: 'ndjson', lines: parseNdjsonLines(text, maxEvents, truncated) };
+  }
+  return { format: 'text', content: text };
+}
+
+/**
+ * Wrap a response stream so it passes through untouched while the first bytes are captured
+ * @param stream - Original response body
+ * @param options - Capture limits and content type
+ * @param onComplete - Called once when the stream ends, errors or is cancelled, or when timeoutMs elapses
+ *   first (a body that is never read or a client that goes away), so callers waiting on it always settle
+ * @returns Stream to return to the client in place of the original
+ */
+export function teeResponseStream(
+  stream: ReadableStream<Uint8Array>,
+  options: StreamCaptureOptions,
+  onComplete: (result: StreamCaptureResult) => void
+): ReadableStream<Uint8Array> {
+  const maxBytes = Math.max(0, options.maxBytes ?? DEFAULT_MAX_BYTES);
+  const maxEvents = Math.max(0, options.maxEvents ?? DEFAULT_MAX_EVENTS);
+  const elapsed = options.elapsed || (() => 0);
+  const reader = stream.getReader();
+  const captured: Uint8Array[] = [];
+  let capturedBytes = 0;
+  let totalBytes = 0;
+  let chunkCount = 0;
+  let timeToFirstByte: number | null = null;
+  let finished = false;
+
+  const record = (chunk: Uint8Array) => {
+    chunkCount++;
+    totalBytes += chunk.byteLength;
+    if (timeToFirstByte === null && chunk.byteLength > 0) {
+      timeToFirstByte = elapsed();
+    }
+    if (capturedBytes < maxBytes) {
+      const slice = chunk.subarray(0, maxBytes - capturedBytes);
+      // Copy, since producers may reuse their buffers
+      captured.push(slice.slice());
+      capturedBytes += slice.byteLength;
+    }
+  };
+
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const finish = (completed: boolean) => {
+    if (finished) {
+      return;
+    }
+    finished = true;
+    if (timer) {
+      clearTimeout(timer);
+    }
+    const bytes = new Uint8Array(capturedBytes);
+    let offset = 0;
+    captured.forEach((chunk) => {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    });
+    const truncated = totalBytes > capturedBytes;
+    try {
+      onComplete({
+        body: {
+          ...describeCapture(bytes, truncated, options, maxEvents),
+          truncated,
+        },
+        bytes,
+        totalBytes,
+        chunkCount,
+        timeToFirstByte,
+        duration: elapsed(),
+        completed,
+      });
+    } catch {
+      // Telemetry must never break the response stream
+    }
+  };
+
+  // The rest of the stream still passes through after a timeout; only the capture ends
+  timer = setTimeout(() => finish(false), Math.max(0, options.timeoutMs ?? DEFAULT_TIMEOUT_MS));
+  if (typeof (timer as any).unref === 'function') {
+    (timer as any).unref();
+  }
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          controller.close();
+          finish(true);
+          return;
+        }
+        const chunk = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+        record(chunk);
+        controller.enqueue(value);
+      } catch (error) {
+        controller.error(error);
+        finish(false);
+      }
+    },
+    cancel(reason) {
+      finish(false);
+      return reader.cancel(reason);
+    },
+  });
+}
@@ -3,6 +3,9 @@
  * @description Runtime-aware transport to send payloads to Treblle (Edge-safe)
  */
 
+import { TreblleTransport, TreblleCompressionOptions } from '../types';
+import { getProxyForUrl, getProxyAuthHeader, openProxyTunnel } from './proxy';
+
 export interface SendOptions {
   endpoint: string;
   sdkToken: string;
@@ -10,6 +13,46 @@ export interface SendOptions {
   debug?: boolean;
   debugVerbose?: boolean;
   timeoutMs?: number;
+  endpoints?: string[]; // Failover list; attempt N goes to endpoints[N % length]
+  maxRetries?: number; // Retry budget for this payload (default: 0)
+  retryBaseDelayMs?: number; // First backoff delay (default: 200)
+  retryMaxDelayMs?: number; // Upper bound for a single backoff delay (default: 5000)
+  proxy?: string | false; // Proxy URL (Node only); false ignores HTTPS_PROXY/HTTP_PROXY
+  compression?: TreblleCompressionOptions; // Compress bodies at or above the threshold
+}
+
+interface EncodedBody {
+  body: string | Uint8Array;
+  contentEncoding?: 'gzip' | 'deflate';
+}
+
+interface AttemptResult {
+  ok: boolean;
+  retryable: boolean;
+}
+
+type AttemptOptions = Pick<SendOptions, 'sdkToken' | 'payload' | 'debug' | 'debugVerbose' | 'proxy'> & {
+  endpoint: string;
+  timeoutMs: number;
+  encoded: EncodedBody;
+};
+
+const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+// One keep-alive agent per client module, so consecutive sends (batches) reuse connections
+const keepAliveAgents = new WeakMap<object, any>();
+
+function getKeepAliveAgent(client: any): any {
+  if (typeof client?.Agent !== 'function') {
+    return undefined;
+  }
+  let agent = keepAliveAgents.get(client);
+  if (!agent) {
+    // Idle sockets are unref'd by Node, so they never keep the process alive
+    agent = new client.Agent({ keepAlive: true });
+    keepAliveAgents.set(client, agent);
+  }
+  return agent;
 }
 
 function isEdgeRuntime(): boolean {
@@ -25,82 +68,227 @@ function truncate(str: string, max = 8000): string {
   return str.slice(0, max) + `\n...[truncated ${str.length - max} chars]`;
 }
 
-export async function sendToTreblle({ endpoint, sdkToken, payload, debug, debugVerbose, timeoutMs = 5000 }: SendOptions): Promise<void> {
-  // Prefer fetch in Edge runtimes
-  if (isEdgeRuntime()) {
-    const controller = new AbortController();
-    const t = setTimeout(() => controller.abort(), timeoutMs);
-    try {
-      if (debugVerbose) {
-        // eslint-disable-next-line no-console
-        console.log('==== DEBUG: TREBLLE ENDPOINT ====' );
-        // eslint-disable-next-line no-console
-        console.log(`Sending to: ${endpoint}`);
-        // eslint-disable-next-line no-console
-        console.log('================================');
+/**
+ * 5xx and 429 responses are worth retrying; other statuses are final
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
 
-        // eslint-disable-next-line no-console
-        console.log('\n==== DEBUG: TREBLLE PAYLOAD ====');
-        const preview = truncate(JSON.stringify(payload, null, 2));
-        // eslint-disable-next-line no-console
-        console.log(preview);
-        // eslint-disable-next-line no-console
-        console.log('================================\n');
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, half is random
+ * @param attempt - Zero-based attempt that just failed
+ * @param baseDelayMs - Delay for the first retry
+ * @param maxDelayMs - Upper bound for any single delay
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const cap = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return cap / 2 + Math.random() * (cap / 2);
+}
+
+/**
+ * Serialize the payload and compress it when enabled and large enough.
+ * Node uses zlib; Edge uses CompressionStream. Falls back to plain JSON.
+ * @param payload - Payload to serialize
+ * @param compression - Compression options (undefined disables compression)
+ * @param edge - Whether we are running in an Edge runtime
+ * @returns Body to send and its Content-Encoding, if any
+ */
+export async function encodeBody(payload: any, compression: TreblleCompressionOptions | undefined, edge: boolean): Promise<EncodedBody> {
+  const json = JSON.stringify(payload);
+  if (!compression) {
+    return { body: json };
+  }
+
+  const encoding = compression.encoding || 'gzip';
+  const threshold = compression.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+
+  try {
+    if (edge) {
+      const bytes = new TextEncoder().encode(json);
+      if (bytes.length < threshold || typeof (globalThis as any).CompressionStream !== 'function') {
+        return { body: json };
       }
-      await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': sdkToken,
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal,
-      }).then(async (res) => {
-        if (debugVerbose) {
-          let body = '';
-          try { body = await res.text(); } catch { body = ''; }
-          // eslint-disable-next-line no-console
-          console.log('\n==== DEBUG: TREBLLE RESPONSE ====');
-          // eslint-disable-next-line no-console
-          console.log(`Status: ${res.status} ${res.statusText}`);
-          if (body) {
-            // eslint-disable-next-line no-console
-            console.log(`Response: ${truncate(body)}`);
-          }
-          // eslint-disable-next-line no-console
-          console.log('================================');
-        }
-      });
-    } catch (err: unknown) {
-      if (debug) {
+      const stream: ReadableStream<Uint8Array> = new Blob([bytes]).stream().pipeThrough(new (globalThis as any).CompressionStream(encoding));
+      const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+      return { body: compressed, contentEncoding: encoding };
+    }
+
+    if (Buffer.byteLength(json, 'utf8') < threshold) {
+      return { body: json };
+    }
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+    const zlib = require('zlib');
+    const compressed = encoding === 'deflate' ? zlib.deflateSync(json) : zlib.gzipSync(json);
+    return { body: compressed, contentEncoding: encoding };
+  } catch {
+    return { body: json };
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => {
+    const t: any = setTimeout(resolve, ms);
+    // Never keep a Node process alive just to retry telemetry
+    if (t && typeof t.unref === 'function') {
+      t.unref();
+    }
+  });
+}
+
+export async function sendToTreblle(options: SendOptions): Promise<void> {
+  const {
+    endpoint,
+    endpoints,
+    debug,
+    timeoutMs = 5000,
+    maxRetries = 0,
+    retryBaseDelayMs = 200,
+    retryMaxDelayMs = 5000,
+  } = options;
+  const targets = endpoints && endpoints.length > 0 ? endpoints : [endpoint];
+  const edge = isEdgeRuntime();
+  // Prefer fetch in Edge runtimes
+  const send = edge ? sendWithFetch : sendWithHttps;
+  // Serialize (and compress) once; every attempt reuses the same body
+  const encoded = await encodeBody(options.payload, options.compression, edge);
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const target = targets[attempt % targets.length];
+    const result = await send({ ...options, endpoint: target, timeoutMs, encoded });
+
+    if (result.ok || !result.retryable || attempt === maxRetries) {
+      return;
+    }
+
+    if (debug) {
+      console.warn(`[Treblle SDK] Sending to ${target} failed, retry ${attempt + 1}/${maxRetries}`);
+    }
+    await sleep(getBackoffDelay(attempt, retryBaseDelayMs, retryMaxDelayMs));
+  }
+}
+
+function buildHeaders(sdkToken: string, encoded: EncodedBody): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'x-api-key': sdkToken,
+  };
+  if (encoded.contentEncoding) {
+    headers['Content-Encoding'] = encoded.contentEncoding;
+  }
+  return headers;
+}
+
+async function sendWithFetch({ endpoint, sdkToken, payload, debug, debugVerbose, timeoutMs, encoded }: AttemptOptions): Promise<AttemptResult> {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    if (debugVerbose) {
+      // eslint-disable-next-line no-console
+      console.log('==== DEBUG: TREBLLE ENDPOINT ====' );
+      // eslint-disable-next-line no-console
+      console.log(`Sending to: ${endpoint}`);
+      // eslint-disable-next-line no-console
+      console.log('================================');
+
+      // eslint-disable-next-line no-console
+      console.log('\n==== DEBUG: TREBLLE PAYLOAD ====');
+      const preview = truncate(JSON.stringify(payload, null, 2));
+      // eslint-disable-next-line no-console
+      console.log(preview);
+      // eslint-disable-next-line no-console
+      console.log('================================\n');
+    }
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers: buildHeaders(sdkToken, encoded),
+      body: encoded.body as any,
+      signal: controller.signal,
+    });
+    if (debugVerbose) {
+      let body = '';
+      try { body = await res.text(); } catch { body = ''; }
+      // eslint-disable-next-line no-console
+      console.log('\n==== DEBUG: TREBLLE RESPONSE ====');
+      // eslint-disable-next-line no-console
+      console.log(`Status: ${res.status} ${res.statusText}`);
+      if (body) {
         // eslint-disable-next-line no-console
-        console.error('[Treblle SDK] Edge transport error:', err);
+        console.log(`Response: ${truncate(body)}`);
       }
-    } finally {
-      clearTimeout(t);
+      // eslint-disable-next-line no-console
+      console.log('================================');
     }
-    return;
+    const status = typeof res?.status === 'number' ? res.status : 200;
+    return { ok: status < 400, retryable: isRetryableStatus(status) };
+  } catch (err: unknown) {
+    if (debug) {
+      // eslint-disable-next-line no-console
+      console.error('[Treblle SDK] Edge transport error:', err);
+    }
+    // Network failure or timeout abort
+    return { ok: false, retryable: true };
+  } finally {
+    clearTimeout(t);
   }
+}
 
+async function sendWithHttps({ endpoint, sdkToken, debug, debugVerbose, timeoutMs, proxy, encoded }: AttemptOptions): Promise<AttemptResult> {
   // Node runtime: use https via dynamic import to avoid top-level require in Edge
   try {
     const url = new URL(endpoint);
     // Use require for sync load and Jest mocks compatibility (Node only)
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const https = require('https');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+    let client = url.protocol === 'http:' ? require('http') : require('https');
 
     const options: any = {
       method: 'POST',
       hostname: url.hostname,
       path: url.pathname + url.search,
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': sdkToken,
-      },
+      headers: buildHeaders(sdkToken, encoded),
     };
+    if (url.port) {
+      options.port = url.port;
+    }
 
-    await new Promise<void>((resolve) => {
-      const req = https.request(options, (res: any) => {
+    const proxyUrl = getProxyForUrl(url, proxy);
+    if (!proxyUrl) {
+      options.agent = getKeepAliveAgent(client);
+    } else {
+      if (debugVerbose) {
+        // eslint-disable-next-line no-console
+        console.log(`[Treblle SDK] Using proxy ${proxyUrl.host} for ${url.host}`);
+      }
+      if (url.protocol === 'https:') {
+        // Tunnel TLS through the proxy with CONNECT
+        let socket: any;
+        try {
+          socket = await openProxyTunnel(proxyUrl, url, timeoutMs);
+        } catch (err: unknown) {
+          if (debug) {
+            console.error('[Treblle SDK] Proxy tunnel error:', err);
+          }
+          return { ok: false, retryable: true };
+        }
+        options.createConnection = () => socket;
+      } else {
+        // Plain HTTP goes to the proxy with an absolute-form request target
+        // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+        client = proxyUrl.protocol === 'https:' ? require('https') : require('http');
+        options.hostname = proxyUrl.hostname;
+        options.port = proxyUrl.port || (proxyUrl.protocol === 'https:' ? 443 : 80);
+        options.path = url.href;
+        options.headers.Host = url.host;
+        const auth = getProxyAuthHeader(proxyUrl);
+        if (auth) {
+          options.headers['Proxy-Authorization'] = auth;
+        }
+      }
+    }
+
+    return await new Promise<AttemptResult>((resolve) => {
+      const req = client.request(options, (res: any) => {
         let chunks: Buffer[] = [];
         res.on('data', (c: Buffer) => { if (debugVerbose) chunks.push(c); });
         res.on('end', () => {
@@ -117,17 +305,18 @@ export async function sendToTreblle({ endpoint, sdkToken, payload, debug, debugV
             // eslint-disable-next-line no-console
             console.log('================================');
           }
-          resolve();
+          const status = typeof res.statusCode === 'number' ? res.statusCode : 200;
+          resolve({ ok: status < 400, retryable: isRetryableStatus(status) });
         });
       });
 
-      req.on('error', (_e: any) => resolve());
+      req.on('error', (_e: any) => resolve({ ok: false, retryable: true }));
       req.setTimeout(timeoutMs, () => {
         try { req.destroy(); } catch {}
-        resolve();
+        resolve({ ok: false, retryable: true });
       });
 
-      req.write(JSON.stringify(payload));
+      req.write(encoded.body);
       req.end();
     });
   } catch (err: unknown) {
@@ -135,5 +324,92 @@ export async function sendToTreblle({ endpoint, sdkToken, payload, debug, debugV
       // eslint-disable-next-line no-console
       console.error('[Treblle SDK] Node transport error:', err);
     }
+    // Invalid endpoint or similar local failure: retrying will not help
+    return { ok: false, retryable: false };
+  }
+}
+
+export interface HttpTransportOptions {
+  sdkToken: string;
+  endpoints: string[]; // One is picked at random per send; the rest are failover targets
+  debug?: boolean;
+  debugVerbose?: boolean;
+  timeoutMs?: number;
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+  proxy?: string | false;
+  compression?: TreblleCompressionOptions;
+}
+
+/**
+ * Plain HTTP is only accepted for loopback hosts (local stand-ins and tests)
+ */
+function isAllowedEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol === 'https:') {
+    return true;
+  }
+  return url.protocol === 'http:' &&
+    ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname);
+}
+
+/**
+ * Check an endpoint list before anything is sent
+ * @param endpoints - Ingestion URLs
+ * @throws If the list is empty or an endpoint is not HTTPS (plain HTTP is allowed for loopback only)
+ */
+export function validateEndpoints(endpoints: string[]): void {
+  if (endpoints.length === 0) {
+    throw new Error('Treblle SDK has no endpoints configured');
+  }
+  const invalid = endpoints.find((endpoint) => !isAllowedEndpoint(endpoint));
+  if (invalid !== undefined) {
+    throw new Error(`Treblle SDK only supports HTTPS endpoints (got ${invalid})`);
+  }
+}
+
+/**
+ * Default transport: POSTs each payload as JSON to Treblle with https (Node) or fetch (Edge)
+ */
+export class HttpTransport implements TreblleTransport {
+  private readonly options: HttpTransportOptions;
+
+  /**
+   * @throws If the endpoints are missing or not HTTPS
+   */
+  constructor(options: HttpTransportOptions) {
+    validateEndpoints(options.endpoints);
+    this.options = options;
+  }
+
+  async send(payload: any): Promise<void> {
+    const { endpoints } = this.options;
+
+    // Start at a random endpoint, keeping the rest as failover targets
+    const start = Math.floor(Math.random() * endpoints.length);
+    const rotated = [...endpoints.slice(start), ...endpoints.slice(0, start)];
+
+    await sendToTreblle({
+      ...this.options,
+      endpoint: rotated[0],
+      endpoints: rotated,
+      payload,
+    });
+  }
+
+  /**
+   * Treblle endpoints accept one payload per request, so batch items are POSTed
+   * one after another over a keep-alive connection
+   */
+  async sendBatch(payloads: any[]): Promise<void> {
+    for (const payload of payloads) {
+      await this.send(payload);
+    }
   }
 }
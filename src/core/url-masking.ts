@@ -0,0 +1,119 @@
+/**
+ * @file src/core/url-masking.ts
+ * @description Masking of query-string values and path segments inside URLs
+ */
+
+import { TreblleOptions } from '../types';
+import { maskSensitiveData, getMaskingOptions } from '../masking';
+import { createMasker } from './mask-strategies';
+
+/**
+ * Whether a route segment is a template placeholder (`:id`, `[id]`, `[...slug]`) rather than a value
+ */
+function isTemplateSegment(segment: string): boolean {
+  return segment.startsWith(':') || (segment.startsWith('[') && segment.endsWith(']'));
+}
+
+/**
+ * Safe decodeURIComponent that treats `+` as a space, as query strings do
+ */
+function decodeComponent(value: string): string {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Mask path segments selected by maskUrlSegments rules
+ * @param path - URL path (no query string)
+ * @param options - SDK options
+ * @returns Path with secret segments masked
+ */
+export function maskUrlPath(path: string, options: TreblleOptions): string {
+  const rules = options.maskUrlSegments;
+  if (!rules || rules.length === 0 || !path) {
+    return path;
+  }
+
+  const maskValue = createMasker(options.maskingStrategy, options.fieldMaskingStrategies);
+  const segments = path.split('/');
+  const masked = segments.slice();
+
+  rules.forEach((rule) => {
+    if (rule instanceof RegExp) {
+      // RegExp rules match individual segment values anywhere in the path
+      const pattern = new RegExp(rule.source, rule.flags.replace(/[gy]/g, ''));
+      segments.forEach((segment, i) => {
+        if (segment && !isTemplateSegment(segment) && pattern.test(decodeComponent(segment))) {
+          masked[i] = String(maskValue(segment));
+        }
+      });
+      return;
+    }
+
+    // String rules are route patterns; `:name` segments are masked, `*` matches without masking
+    const ruleSegments = rule.split('/');
+    if (ruleSegments.length !== segments.length) {
+      return;
+    }
+    const matches = ruleSegments.every((ruleSegment, i) =>
+      ruleSegment.startsWith(':') || ruleSegment === '*' || ruleSegment === segments[i]
+    );
+    if (!matches) {
+      return;
+    }
+    ruleSegments.forEach((ruleSegment, i) => {
+      if (ruleSegment.startsWith(':') && segments[i] && !isTemplateSegment(segments[i])) {
+        masked[i] = String(maskValue(segments[i], ruleSegment.slice(1)));
+      }
+    });
+  });
+
+  return masked.join('/');
+}
+
+/**
+ * Mask query-string values and path segments in a request URL, using the same rules as the query object
+ * @param url - Absolute or relative URL
+ * @param options - SDK options
+ * @returns URL with secrets masked; untouched parts keep their original encoding
+ */
+export function maskRequestUrl(url: string, options: TreblleOptions): string {
+  if (!url) {
+    return url;
+  }
+
+  const hashIndex = url.indexOf('#');
+  const fragment = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutFragment = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const queryIndex = withoutFragment.indexOf('?');
+  const base = queryIndex === -1 ? withoutFragment : withoutFragment.slice(0, queryIndex);
+  const query = queryIndex === -1 ? '' : withoutFragment.slice(queryIndex + 1);
+
+  // Keep scheme and authority as-is; only the path is subject to segment rules
+  const origin = (base.match(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i) || [''])[0];
+  const maskedBase = origin + maskUrlPath(base.slice(origin.length), options);
+
+  if (!query) {
+    return maskedBase + (queryIndex === -1 ? '' : '?') + fragment;
+  }
+
+  const maskingOptions = getMaskingOptions(options, 'request.query');
+  const maskedQuery = query
+    .split('&')
+    .map((pair) => {
+      const eq = pair.indexOf('=');
+      if (eq === -1) {
+        return pair;
+      }
+      const key = decodeComponent(pair.slice(0, eq));
+      const value = decodeComponent(pair.slice(eq + 1));
+      const masked = maskSensitiveData({ [key]: value }, options.additionalMaskedFields, maskingOptions)[key];
+      return masked === value ? pair : `${pair.slice(0, eq)}=${encodeURIComponent(String(masked))}`;
+    })
+    .join('&');
+
+  return `${maskedBase}?${maskedQuery}${fragment}`;
+}
@@ -0,0 +1,145 @@
+/**
+ * @file src/core/xml-parser.ts
+ * @description Small, tolerant XML-to-object conversion for captured bodies
+ */
+
+const MAX_NESTING = 64;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Replace predefined and numeric character references
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) || code > 0x10ffff ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Add a child value under its name, turning repeated names into arrays.
+ * Defined as an own property so an element named `__proto__` cannot replace the prototype.
+ */
+function addChild(node: Record<string, any>, name: string, value: any): void {
+  if (!Object.prototype.hasOwnProperty.call(node, name)) {
+    Object.defineProperty(node, name, { value, writable: true, enumerable: true, configurable: true });
+  } else if (Array.isArray(node[name])) {
+    node[name].push(value);
+  } else {
+    node[name] = [node[name], value];
+  }
+}
+
+interface OpenElement {
+  name: string;
+  node: Record<string, any>;
+  text: string[];
+}
+
+/**
+ * Collapse a finished element: text-only elements become strings, empty ones null
+ */
+function finishElement(element: OpenElement): any {
+  const text = element.text.join('').trim();
+  const keys = Object.keys(element.node);
+  if (keys.length === 0) {
+    return text ? text : null;
+  }
+  if (text) {
+    element.node['#text'] = text;
+  }
+  return element.node;
+}
+
+/**
+ * Parse an XML document into a plain object.
+ * Attributes are prefixed with `@`, mixed text is kept under `#text`, and repeated children become arrays.
+ * @param xml - XML text
+ * @returns `{ rootName: value }`
+ * @throws If the document is not well-formed
+ */
+export function parseXml(xml: string): Record<string, any> {
+  const tokens = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<!DOCTYPE[^>[]*(?:\[[\s\S]*?\])?\s*>|<(\/?)([^\s/>]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>|([^<]+)/gi;
+  const stack: OpenElement[] = [];
+  let result: Record<string, any> | null = null;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokens.exec(xml)) !== null) {
+    if (match.index !== consumed) {
+      throw new Error('Malformed XML');
+    }
+    consumed = tokens.lastIndex;
+    const [, cdata, closing, name, attributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined || cdata !== undefined) {
+      const value = cdata !== undefined ? cdata : decodeEntities(text);
+      if (current) {
+        current.text.push(value);
+      } else if (value.trim()) {
+        throw new Error('Text outside of root element');
+      }
+      continue;
+    }
+    if (!name) {
+      continue; // Comment, processing instruction or doctype
+    }
+
+    if (closing) {
+      if (!current || current.name !== name) {
+        throw new Error(`Unexpected closing tag </${name}>`);
+      }
+      stack.pop();
+      const value = finishElement(current);
+      if (stack.length > 0) {
+        addChild(stack[stack.length - 1].node, name, value);
+      } else {
+        result = { [name]: value };
+      }
+      continue;
+    }
+
+    if (result) {
+      throw new Error('Multiple root elements');
+    }
+    if (stack.length >= MAX_NESTING) {
+      throw new Error('XML nesting too deep');
+    }
+
+    const element: OpenElement = { name, node: {}, text: [] };
+    const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'))?/g;
+    let attribute: RegExpExecArray | null;
+    while ((attribute = attributePattern.exec(attributes)) !== null) {
+      element.node[`@${attribute[1]}`] = decodeEntities(attribute[2] ?? attribute[3] ?? '');
+    }
+
+    if (selfClosing) {
+      const value = finishElement(element);
+      if (current) {
+        addChild(current.node, name, value);
+      } else {
+        result = { [name]: value };
+      }
+    } else {
+      stack.push(element);
+    }
+  }
+
+  if (consumed !== xml.length || stack.length > 0 || !result) {
+    throw new Error('Malformed XML');
+  }
+  return result;
+}
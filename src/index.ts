@@ -4,7 +4,7 @@
  * @version 1.0.0
  */
 
-import { TreblleOptions, TreblleError } from './types';
+import { TreblleOptions, TreblleError, TreblleTransport, TreblleSamplingContext, TreblleCaptureContext } from './types';
 import {
   withTreblle as withTreblleNext,
   withTrebllePages,
@@ -14,7 +14,11 @@ import {
   treblleHandler,
   treblleApiHandler
 } from './integrations/nextjs';
-import { maskSensitiveData } from './masking';
+import { maskSensitiveData, getMaskingOptions } from './masking';
+import { MaskPathScope } from './core/mask-paths';
+import { filterHeaders } from './core/header-filter';
+import { anonymizeIp, anonymizeIpHeaders, isUnsaltedIpHash } from './core/ip-privacy';
+import { maskRequestUrl, maskUrlPath } from './core/url-masking';
 import { 
   getCurrentEnvironment, 
   isEnabledForEnvironment, 
@@ -25,7 +29,9 @@ import {
 } from './utils';
 import { processPayloadWithSizeCheck, checkPayloadSize } from './core/payload-size';
 import { getSdkVersionFloat } from './core/version';
-import { sendToTreblle } from './core/transport';
+import { HttpTransport } from './core/transport';
+import { registerBodyParser, BodyParser } from './core/body-parser-registry';
+import { PayloadQueue } from './core/queue';
 
 // Constants
 const TREBLLE_ENDPOINTS = [
@@ -34,6 +40,10 @@ const TREBLLE_ENDPOINTS = [
   'https://sicario.treblle.com'
 ];
 
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_DELAY_MS = 200;
+const DEFAULT_RETRY_MAX_DELAY_MS = 2000;
+
 
 
 /**
@@ -49,6 +59,9 @@ class Treblle {
   private excludePaths: (string | RegExp)[] = [];
   private includePaths: (string | RegExp)[] = [];
   private enabled: boolean = true;
+  private queue: PayloadQueue | null = null;
+  private transport!: TreblleTransport;
+  private inFlight: Set<Promise<void>> = new Set();
   public options!: TreblleOptions;
 
   /**
@@ -82,6 +95,47 @@ class Treblle {
     // Determine if the SDK should be enabled based on environment
     this.enabled = isEnabledForEnvironment(options);
     
+    if (isUnsaltedIpHash(options.ipPrivacy)) {
+      console.warn('[Treblle SDK] ipPrivacy \'hash\' requires a salt; client IPs are truncated instead');
+    }
+    
+    // Use the custom transport when provided, otherwise POST to Treblle
+    const retry = options.retry === false ? { maxRetries: 0 } : (options.retry || {});
+    try {
+      this.transport = options.transport || new HttpTransport({
+        sdkToken: this.sdkToken,
+        endpoints: options.endpoints && options.endpoints.length > 0 ? options.endpoints : TREBLLE_ENDPOINTS,
+        proxy: options.proxy,
+        compression: options.compression === true ? {} : (options.compression || undefined),
+        debug: this.debug,
+        debugVerbose: this.debugVerbose,
+        timeoutMs: 5000,
+        maxRetries: retry.maxRetries ?? DEFAULT_MAX_RETRIES,
+        retryBaseDelayMs: retry.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS,
+        retryMaxDelayMs: retry.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS,
+      });
+    } catch (error: unknown) {
+      // Invalid endpoints can never deliver anything, so the SDK stays disabled
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`${message}; telemetry is disabled`);
+      this._handleError(error instanceof Error ? error : new Error(message));
+      this.enabled = false;
+      return;
+    }
+    
+    // Batch payloads in memory when requested
+    if (options.batching) {
+      const batching = options.batching === true ? {} : options.batching;
+      this.queue = new PayloadQueue((batch) => this._sendBatch(batch), {
+        ...batching,
+        onDrop: () => {
+          if (this.debug) {
+            console.warn('[Treblle SDK] Queue full, dropped oldest payload');
+          }
+        }
+      });
+    }
+    
     if (this.debug) {
       console.log(`[Treblle SDK] Initialized in ${getCurrentEnvironment()} environment. SDK ${this.enabled ? 'enabled' : 'disabled'}.`);
     }
@@ -155,6 +209,16 @@ class Treblle {
       };
       
       res.end = function(chunk: any, _encoding?: string) {
+        // Skip requests dropped by sampling
+        if (!self.shouldSample({
+          path: req._treblleRoutePath || path,
+          method: req.method,
+          statusCode: res.statusCode,
+          hasErrors: (res._treblleErrors || []).length > 0
+        })) {
+          return originalEnd.apply(res, arguments);
+        }
+        
         // Calculate request duration
         const hrDuration = process.hrtime(requestStartTime);
         //const duration = hrDuration[0] * 1000 + hrDuration[1] / 1000000; // Convert to milliseconds
@@ -323,6 +387,10 @@ class Treblle {
           }
         }
         
+        // Mask one payload section with its scoped maskPaths
+        const maskSection = (data: any, scope: MaskPathScope) =>
+          maskSensitiveData(data, self.options.additionalMaskedFields, getMaskingOptions(self.options, scope));
+        
         // Build the payload according to Treblle specification
         const payload = {
           api_key: self.sdkToken,
@@ -346,15 +414,18 @@ class Treblle {
             },
             request: {
               timestamp: requestTimestamp,
-              ip: getClientIp(req),
-              url: url,
-              route_path: req._treblleRoutePath || '',
+              ip: anonymizeIp(getClientIp(req, self.options.trustProxy), self.options.ipPrivacy) ?? '',
+              url: maskRequestUrl(url, self.options),
+              route_path: maskUrlPath(req._treblleRoutePath || '', self.options),
               user_agent: req.headers['user-agent'] || '',
               method: req.method,
-              headers: maskSensitiveData(req.headers, self.options.additionalMaskedFields),
-              query: maskSensitiveData(query, self.options.additionalMaskedFields),
+              headers: maskSection(
+                anonymizeIpHeaders(filterHeaders(req.headers, self.options.captureHeaders?.request), self.options.ipPrivacy),
+                'request.headers'
+              ),
+              query: maskSection(query, 'request.query'),
               body: processPayloadWithSizeCheck(
-                maskSensitiveData(requestBody, self.options.additionalMaskedFields),
+                maskSection(requestBody, 'request.body'),
                 {
                   maxSize: self.options.maxPayloadSize,
                   warningSize: self.options.payloadWarningSize,
@@ -363,12 +434,12 @@ class Treblle {
               )
             },
             response: {
-              headers: maskSensitiveData(responseHeaders, self.options.additionalMaskedFields),
+              headers: maskSection(filterHeaders(responseHeaders, self.options.captureHeaders?.response), 'response.headers'),
               code: res.statusCode,
               size: calculateResponseSize(responseBody, res),
               load_time: duration,
               body: processPayloadWithSizeCheck(
-                maskSensitiveData(responseBody, self.options.additionalMaskedFields),
+                maskSection(responseBody, 'response.body'),
                 {
                   maxSize: self.options.maxPayloadSize,
                   warningSize: self.options.payloadWarningSize,
@@ -381,7 +452,7 @@ class Treblle {
         };
         
         // Asynchronously send data to Treblle (fire and forget)
-        self.capture(payload);
+        self.capture(payload, { source: 'express', request: req, response: res });
         
         return originalEnd.apply(res, arguments);
       }.bind(this);
@@ -470,53 +541,176 @@ class Treblle {
    * @method capture
    * @description Capture and send telemetry data asynchronously
    * @param payload - The payload to send
+   * @param context - Where the payload came from, passed to beforeSend
    */
-  public capture(payload: any): void {
+  public capture(payload: any, context: TreblleCaptureContext = { source: 'manual' }): void {
     if (!this.enabled) return;
+    
+    const beforeSend = this.options?.beforeSend;
+    if (!beforeSend) {
+      this._enqueue(payload);
+      return;
+    }
+    
+    try {
+      const result = beforeSend(payload, context);
+      if (result && typeof result.then === 'function') {
+        // Tracked so flush() also waits for async hooks
+        this._track(Promise.resolve(result).then((processed) => this._enqueueProcessed(processed)));
+      } else {
+        this._enqueueProcessed(result);
+      }
+    } catch (error: unknown) {
+      // A failing hook drops the payload rather than sending something unintended
+      this._handleError(error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * @method flush
+   * @description Send everything queued and wait for all in-flight sends to settle.
+   * Await this (or hand it to `waitUntil`) before a serverless function freezes.
+   * @param timeoutMs - Optional upper bound in milliseconds; resolves early when reached
+   * @returns Promise that resolves once pending telemetry has been delivered or given up on
+   */
+  public flush(timeoutMs?: number): Promise<void> {
+    const drain = async () => {
+      // Async beforeSend hooks may queue more payloads while we wait
+      do {
+        if (this.queue) {
+          await this.queue.flush();
+        }
+        if (this.inFlight.size > 0) {
+          await Promise.all(Array.from(this.inFlight));
+        }
+      } while (this.inFlight.size > 0 || (this.queue !== null && this.queue.size > 0));
+    };
+
+    if (!timeoutMs || timeoutMs <= 0) {
+      return drain();
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(resolve, timeoutMs);
+    });
+
+    return Promise.race([drain(), timeout]).then(() => {
+      clearTimeout(timer);
+    });
+  }
+
+  /**
+   * @method shutdown
+   * @description Flush pending telemetry and stop capturing. Further calls to
+   * capture() are ignored.
+   * @param timeoutMs - Optional upper bound in milliseconds for the final flush
+   * @returns Promise that resolves once the final flush has settled
+   */
+  public async shutdown(timeoutMs?: number): Promise<void> {
+    this.enabled = false;
+    await this.flush(timeoutMs);
+    if (this.queue) {
+      this.queue.stop();
+    }
+  }
+
+  /**
+   * @method _enqueueProcessed
+   * @private
+   * @description Send the result of beforeSend unless it dropped the payload
+   * @param payload - Payload returned by beforeSend
+   */
+  private _enqueueProcessed(payload: any): void {
+    if (payload === null || payload === undefined) {
+      if (this.debugVerbose) {
+        // eslint-disable-next-line no-console
+        console.log('[Treblle SDK] Payload dropped by beforeSend');
+      }
+      return;
+    }
+    this._enqueue(payload);
+  }
+
+  /**
+   * @method _enqueue
+   * @private
+   * @description Queue the payload for the next batch, or send it right away
+   * @param payload - The payload to send
+   */
+  private _enqueue(payload: any): void {
+    if (this.queue) {
+      this.queue.push(payload);
+      return;
+    }
     // Fire-and-forget; initiate send immediately (non-blocking)
     this._sendPayload(payload);
   }
 
+  /**
+   * @method _track
+   * @private
+   * @description Keep a reference to an in-flight send until it settles
+   * @param promise - The pending send
+   */
+  private _track(promise: Promise<void>): void {
+    const tracked: Promise<void> = promise
+      .catch((error: unknown) => {
+        this._handleError(error instanceof Error ? error : new Error(String(error)));
+      })
+      .then(() => {
+        this.inFlight.delete(tracked);
+      });
+    this.inFlight.add(tracked);
+  }
+
   /**
    * @method _sendPayload
    * @private
-   * @description Send payload to a random Treblle endpoint
+   * @description Hand a single payload to the configured transport
    * @param payload - The payload to send
    */
   private _sendPayload(payload: any): void {
+    this._deliver(() => this.transport.send(payload));
+  }
+
+  /**
+   * @method _sendBatch
+   * @private
+   * @description Hand a batch from the queue to the transport, one send() per payload
+   * unless the transport accepts batches
+   * @param batch - The payloads to send
+   */
+  private _sendBatch(batch: any[]): void {
+    const transport = this.transport;
+    this._deliver(() => typeof transport.sendBatch === 'function'
+      ? transport.sendBatch(batch)
+      : Promise.all(batch.map((payload) => transport.send(payload))).then(() => undefined));
+  }
+
+  /**
+   * @method _deliver
+   * @private
+   * @description Start a transport call and track it until it settles
+   * @param send - Starts the transport call
+   */
+  private _deliver(send: () => Promise<void>): void {
     try {
-      // Select random endpoint
-      const endpoint = TREBLLE_ENDPOINTS[Math.floor(Math.random() * TREBLLE_ENDPOINTS.length)];
-      
       // Intentionally avoid verbose logging here to prevent noisy async logs in tests
       
-      // Validate URL is HTTPS
-      const url = new URL(endpoint);
-      if (url.protocol !== 'https:') {
-        this._handleError(new Error('Treblle SDK only supports HTTPS endpoints'));
-        return;
-      }
-
-      // Use runtime-aware transport (Edge-safe)
-      void sendToTreblle({
-        endpoint,
-        sdkToken: this.sdkToken,
-        payload,
-        debug: this.debug,
-        debugVerbose: this.debugVerbose,
-        timeoutMs: 5000,
-      });
+      // Tracked so flush() can await it
+      this._track(send());
     } catch (error: unknown) {
       if (error instanceof Error) {
         this._handleError(error);
         if (this.debug) {
-          console.error(`[Treblle SDK] Error in _sendPayload: ${error.message}`);
+          console.error(`[Treblle SDK] Error in _deliver: ${error.message}`);
           console.error(`[Treblle SDK] Stack trace: ${error.stack}`);
         }
       } else {
         this._handleError(new Error(`Unknown error: ${String(error)}`));
         if (this.debug) {
-          console.error(`[Treblle SDK] Unknown error in _sendPayload: ${String(error)}`);
+          console.error(`[Treblle SDK] Unknown error in _deliver: ${String(error)}`);
         }
       }
     }
@@ -557,6 +751,59 @@ class Treblle {
     return false;
   }
 
+  /**
+   * @method shouldSample
+   * @description Decides whether a finished request should be captured under the
+   * configured sampling rules
+   * @param context - Request path, method, status and error state
+   * @returns True if the request should be captured
+   */
+  public shouldSample(context: TreblleSamplingContext): boolean {
+    const sampling = this.options?.sampling;
+    if (!sampling) {
+      return true;
+    }
+    
+    // Always-keep rules win over every rate
+    if (context.hasErrors && sampling.alwaysKeepErrors !== false) {
+      return true;
+    }
+    
+    const keepStatus = sampling.alwaysKeepStatus || ['5xx'];
+    const statusClass = `${Math.floor(context.statusCode / 100)}xx`;
+    if (keepStatus.some((status) => String(status).toLowerCase() === String(context.statusCode) ||
+        String(status).toLowerCase() === statusClass)) {
+      return true;
+    }
+    
+    if (sampling.sampler) {
+      try {
+        const decision = sampling.sampler(context);
+        if (typeof decision === 'boolean') {
+          return decision;
+        }
+      } catch (error: unknown) {
+        this._handleError(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+    
+    let rate = sampling.rate ?? 1;
+    for (const route of sampling.routes || []) {
+      if (this._matchesPattern(context.path, route.pattern)) {
+        rate = route.rate;
+        break;
+      }
+    }
+    
+    if (rate >= 1) {
+      return true;
+    }
+    if (rate <= 0) {
+      return false;
+    }
+    return Math.random() < rate;
+  }
+
   /**
    * @method _matchesPattern
    * @private
@@ -618,3 +865,8 @@ export { withTrebllePages };
 export const withTreblleMiddleware = withTreblleMiddlewareNext;
 export const nextMiddlewareTreblle = withTreblleMiddlewareNext;
 export { createTreblleWrapper, createMiddlewareWrapper, treblleHandler, treblleApiHandler };
+
+// Transport extension point
+export { HttpTransport };
+export { registerBodyParser };
+export type { TreblleOptions, TreblleTransport, TreblleCaptureContext, BodyParser };
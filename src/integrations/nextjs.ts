@@ -5,9 +5,10 @@
  */
 
 import Treblle from '../index';
-import { TreblleOptions, TreblleError } from '../types';
+import { TreblleOptions, TreblleError, TreblleSamplingContext } from '../types';
 import { 
   hrToMicro,
+  getClientIp,
   getNextClientIp
 } from '../utils';
 import { 
@@ -17,10 +18,14 @@ import {
 import { 
   buildTrebllePayload,
   PayloadRequest,
-  PayloadResponse
+  PayloadResponse,
+  PayloadTiming
 } from '../core/payload';
 import { getTreblleInstance } from '../core/instance-manager';
-import type { NextRequest, NextResponse } from 'next/server';
+import { teeResponseStream, isStreamingResponse } from '../core/stream-capture';
+import { loadRouteTemplates, resolveRouteTemplate, RouteParams } from '../core/route-manifest';
+import { getAbsoluteRequestUrl, stripPathPrefixes } from '../core/request-url';
+import type { NextRequest, NextResponse, NextFetchEvent } from 'next/server';
 
 // ===== TYPES AND INTERFACES =====
 
@@ -40,7 +45,7 @@ export type NextApiHandler<T = any> =
  * Next.js Middleware Handler type
  */
 export type NextMiddlewareHandler = 
-  (request: NextRequest) => NextResponse | Promise<NextResponse>;
+  (request: NextRequest, event?: NextFetchEvent) => NextResponse | Promise<NextResponse>;
 
 /**
  * Route context with enhanced params support
@@ -64,16 +69,59 @@ export interface NextjsTreblleOptions extends TreblleOptions {
    */
   handleStreaming?: boolean;
   
+  /**
+   * Limits for capturing streamed response bodies when handleStreaming is on.
+   * The stream is passed through untouched; only the first maxBytes (default 64KB)
+   * and maxEvents SSE events / NDJSON lines (default 100) are recorded. A body that is not fully
+   * read within timeoutMs (default 30s) is reported with what was captured so far.
+   */
+  streamCapture?: {
+    maxBytes?: number;
+    maxEvents?: number;
+    timeoutMs?: number;
+  };
+  
   /**
    * Custom route path extraction function
    */
   routeExtractor?: (request: Request, context?: NextRouteContext) => string | Promise<string>;
   
+  /**
+   * Next.js basePath from next.config. Added to reconstructed Pages Router URLs when
+   * missing, and removed from route paths so they match the route templates.
+   */
+  basePath?: string;
+  
+  /**
+   * i18n locales from next.config; a leading locale segment is removed from Pages Router route paths
+   */
+  locales?: string[];
+  
+  /**
+   * Next.js build directory, if changed with `distDir` in next.config (default: .next).
+   * Route templates are read from its server manifests.
+   */
+  distDir?: string;
+  
   /**
    * Maximum body size to process (default: 2MB)
    */
   maxBodySize?: number;
   
+  /**
+   * Largest multipart/form-data request buffered to extract fields and file metadata (default: 10MB)
+   */
+  maxMultipartSize?: number;
+  
+  /**
+   * Keep serverless functions alive until telemetry has been sent.
+   * By default the wrappers hand `treblle.flush()` to the first hook available:
+   * the middleware `event.waitUntil`, the platform request context `waitUntil`
+   * (Vercel), or `after()` from `next/server` (Next.js 15+).
+   * Pass a function to supply your own `waitUntil`, or `false` to disable.
+   */
+  waitUntil?: boolean | ((promise: Promise<unknown>) => void);
+  
   /**
    * Environment-specific settings
    */
@@ -191,47 +239,52 @@ function isDefaultBlockedPath(pathname: string): boolean {
 
 /**
  * Enhanced route path extraction for Next.js
+ * Resolves the route template (`/api/users/[id]`) from the build manifest, falling back to the request params
  */
-async function extractNextRoute(request: Request, context?: NextRouteContext): Promise<string> {
-  const url = new URL(request.url);
-  let pathname = url.pathname;
-  
-  // Remove /api prefix if present
-  if (pathname.startsWith('/api/')) {
-    pathname = pathname.substring(4);
-  }
+async function extractNextRoute(
+  request: Request,
+  context?: NextRouteContext,
+  distDir?: string,
+  basePath?: string
+): Promise<string> {
+  // nextUrl.pathname already excludes basePath, matching the manifest
+  const nextUrl = (request as NextRequest).nextUrl;
+  const pathname = nextUrl ? nextUrl.pathname : stripPathPrefixes(new URL(request.url).pathname, { basePath });
   
   // Handle dynamic routes using context.params (Next 15: may be a Promise)
+  let params: RouteParams | undefined;
   if (context?.params) {
-    let params: Record<string, string | string[]> | undefined;
     try {
       const maybeParams = context.params as any;
       params = typeof maybeParams?.then === 'function' ? await maybeParams : maybeParams;
     } catch {
       params = undefined;
     }
-    if (params) {
-      for (const [key, value] of Object.entries(params)) {
-        if (Array.isArray(value)) {
-          // Catch-all routes [...slug]
-          const slugPath = value.join('/');
-          pathname = pathname.replace(slugPath, `[...${key}]`);
-        } else {
-          // Regular dynamic routes [id]
-          pathname = pathname.replace(String(value), `[${key}]`);
-        }
-      }
-    }
   }
   
-  // Handle route groups - extract from pathname
-  const routeGroupMatch = pathname.match(/\/\([^)]+\)/g);
-  if (routeGroupMatch) {
-    // Keep route groups in the path for better organization
-    return pathname;
-  }
+  return resolveRouteTemplate(pathname, { kind: 'app', params, distDir });
+}
+
+/**
+ * Route path extraction for Pages Router API handlers
+ * req.query merges the query string with dynamic route params; keys absent from (or differing from) the query string are params
+ */
+function extractPagesRoute(req: any, options: NextjsTreblleOptions): string {
+  const url: string = req.url || '';
+  const queryIndex = url.indexOf('?');
+  const pathname = stripPathPrefixes(queryIndex === -1 ? url : url.slice(0, queryIndex), options);
+  const searchParams = new URLSearchParams(queryIndex === -1 ? '' : url.slice(queryIndex + 1));
   
-  return pathname;
+  const params: RouteParams = {};
+  Object.entries(req.query || {}).forEach(([key, value]) => {
+    const fromQuery = searchParams.getAll(key);
+    const values = Array.isArray(value) ? value.map(String) : [String(value)];
+    if (fromQuery.length !== values.length || fromQuery.some((v, i) => v !== values[i])) {
+      params[key] = value as string | string[];
+    }
+  });
+  
+  return resolveRouteTemplate(pathname || '/', { kind: 'pages', params, distDir: options.distDir });
 }
 
 /**
@@ -339,6 +392,112 @@ function startTiming(): number | [number, number] {
   }
 }
 
+/**
+ * Find a hook that keeps the current invocation alive until a promise settles
+ */
+function resolveWaitUntil(
+  options: NextjsTreblleOptions,
+  event?: { waitUntil?: (promise: Promise<any>) => void }
+): ((promise: Promise<unknown>) => void) | undefined {
+  if (options.waitUntil === false) {
+    return undefined;
+  }
+  
+  if (typeof options.waitUntil === 'function') {
+    return options.waitUntil;
+  }
+  
+  // Middleware receives a NextFetchEvent
+  if (event && typeof event.waitUntil === 'function') {
+    return (promise) => event.waitUntil!(promise);
+  }
+  
+  // Request context exposed by Next.js on Vercel (same lookup @vercel/functions uses)
+  try {
+    const requestContext = (globalThis as any)[Symbol.for('@next/request-context')]?.get?.();
+    if (requestContext && typeof requestContext.waitUntil === 'function') {
+      return (promise) => requestContext.waitUntil(promise);
+    }
+  } catch {
+    // Fall through to after()
+  }
+  
+  // Next.js 15+: after() runs work once the response has been sent
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires, @typescript-eslint/no-require-imports
+    const { after } = require('next/server');
+    if (typeof after === 'function') {
+      return (promise) => after(promise);
+    }
+  } catch {
+    // Older Next.js versions have no after()
+  }
+  
+  return undefined;
+}
+
+/**
+ * Register a flush of pending telemetry with the platform so it survives
+ * response completion on serverless runtimes
+ * @param pending - Work that must finish before flushing, such as a streamed response
+ */
+function registerFlush(
+  treblle: Treblle,
+  options: NextjsTreblleOptions,
+  event?: { waitUntil?: (promise: Promise<any>) => void },
+  pending?: Promise<unknown>
+): void {
+  if (typeof (treblle as any).flush !== 'function') {
+    return;
+  }
+  
+  const waitUntil = resolveWaitUntil(options, event);
+  if (!waitUntil) {
+    return;
+  }
+  
+  try {
+    // Wait for deferred captures (e.g. streams still being sent) before flushing
+    waitUntil(pending ? pending.then(() => treblle.flush()) : treblle.flush());
+  } catch (error) {
+    // after() throws when called outside a request scope
+    if (options.debugVerbose) {
+      console.warn('[Treblle SDK] Unable to register flush with waitUntil:', error);
+    }
+  }
+}
+
+/**
+ * Apply the instance's sampling rules to a finished request
+ */
+function shouldCapture(treblle: Treblle, context: TreblleSamplingContext): boolean {
+  return (typeof (treblle as any).shouldSample === 'function')
+    ? treblle.shouldSample(context)
+    : true;
+}
+
+/**
+ * Parse an App Router response body for the payload, replacing bodies over maxBodySize
+ */
+async function parseResponseBody(response: Response, options: NextjsTreblleOptions): Promise<any> {
+  try {
+    const body = await parseNextjsResponseBody(response);
+    if (options.maxBodySize && JSON.stringify(body).length > options.maxBodySize) {
+      return {
+        __type: 'large_response',
+        size: JSON.stringify(body).length,
+        message: 'Response body too large to process'
+      };
+    }
+    return body;
+  } catch (error) {
+    if (options.debug) {
+      console.warn('[Treblle SDK] Failed to parse response body:', error);
+    }
+    return {};
+  }
+}
+
 // ===== CORE WRAPPER FUNCTIONS =====
 
 /**
@@ -349,6 +508,11 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
   options: NextjsTreblleOptions, 
   handler: T
 ): T {
+  // Read the route manifest now so requests resolve templates from memory
+  if (!options.routeExtractor) {
+    void loadRouteTemplates('app', options.distDir);
+  }
+  
   return (async (request: Request, context: { params?: any }) => {
     // Check if SDK is enabled (environment-aware)
     const enabled = (typeof (treblle as any).isEnabled === 'function')
@@ -382,7 +546,7 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
     let requestBody: any = {};
     try {
       const clonedReq = request.clone();
-      requestBody = await parseNextjsRequestBody(clonedReq);
+      requestBody = await parseNextjsRequestBody(clonedReq, { maxMultipartSize: options.maxMultipartSize });
       
       // Handle large bodies
       if (options.maxBodySize && JSON.stringify(requestBody).length > options.maxBodySize) {
@@ -401,6 +565,7 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
     // Execute handler and capture errors
     let response: Response;
     const errors: TreblleError[] = [];
+    let thrown: { error: unknown } | null = null;
     
     try {
       response = await handler(request, context);
@@ -411,41 +576,25 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
         console.error('[Treblle SDK] Handler threw error:', err);
       }
       
-      throw err;
+      // Capture the request as the 500 Next.js will send, then rethrow
+      thrown = { error: err };
+      response = new Response(null, { status: 500 });
     }
     
+    // Hand the handler's outcome back to Next.js
+    const settle = (): Response => {
+      if (thrown) {
+        throw thrown.error;
+      }
+      return response;
+    };
+    
     // Calculate duration
     const duration = getElapsedTime(requestStartTime);
     
-    // Parse response body
-    let responseBody: any = {};
-    try {
-      // Handle streaming responses
-      if (options.handleStreaming && 
-          (response.headers.get('transfer-encoding') === 'chunked' || 
-           response.headers.get('content-type')?.includes('stream'))) {
-        responseBody = {
-          __type: 'stream',
-          contentType: response.headers.get('content-type'),
-          transferEncoding: response.headers.get('transfer-encoding')
-        };
-      } else {
-        const clonedRes = response.clone();
-        responseBody = await parseNextjsResponseBody(clonedRes);
-        
-        // Handle large responses
-        if (options.maxBodySize && JSON.stringify(responseBody).length > options.maxBodySize) {
-          responseBody = {
-            __type: 'large_response',
-            size: JSON.stringify(responseBody).length,
-            message: 'Response body too large to process'
-          };
-        }
-      }
-    } catch (error) {
-      if (options.debug) {
-        console.warn('[Treblle SDK] Failed to parse response body:', error);
-      }
+    // Skip requests dropped by sampling
+    if (!shouldCapture(treblle, { path: pathname, method: request.method, statusCode: response.status, hasErrors: errors.length > 0 })) {
+      return settle();
     }
     
     // Build headers objects
@@ -469,7 +618,7 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
     // Get route path
     const routePath = options.routeExtractor ? 
       await Promise.resolve(options.routeExtractor(request, context)) :
-      await extractNextRoute(request, context);
+      await extractNextRoute(request, context, options.distDir, options.basePath);
 
     if (options.debugVerbose) {
       console.log('==== DEBUG: TREBLLE ROUTE PATH ====');
@@ -479,45 +628,125 @@ function createWrappedAppRouterHandler<T extends NextRouteHandler>(
       console.log('================================');
     }
     
-    // Build payload
-    const payloadRequest: PayloadRequest = {
-      timestamp: requestTimestamp,
-      ip: getNextClientIp(request),
-      url: request.url,
-      route_path: routePath,
-      user_agent: request.headers.get('user-agent') || '',
-      method: request.method,
-      headers: requestHeaders,
-      query,
-      body: requestBody
-    };
+    // Build and send the payload once the response body is known
+    const sendPayload = (
+      responseBody: any,
+      responseSize: number,
+      sentResponse: Response,
+      timing: PayloadTiming,
+      pending?: Promise<unknown>
+    ) => {
+      const payloadRequest: PayloadRequest = {
+        timestamp: requestTimestamp,
+        ip: getNextClientIp(request, options.trustProxy),
+        url: request.url,
+        route_path: routePath,
+        user_agent: request.headers.get('user-agent') || '',
+        method: request.method,
+        headers: requestHeaders,
+        query,
+        body: requestBody
+      };
 
-    const payloadResponse: PayloadResponse = {
-      headers: responseHeaders,
-      code: response.status,
-      size: 0,
-      load_time: duration,
-      body: responseBody
-    };
+      const payloadResponse: PayloadResponse = {
+        headers: responseHeaders,
+        code: sentResponse.status,
+        size: responseSize,
+        load_time: timing.total_time,
+        body: responseBody,
+        timing
+      };
 
-    const payload = buildTrebllePayload({
-      sdkToken: options.sdkToken,
-      apiKey: options.apiKey,
-      request: payloadRequest,
-      response: payloadResponse,
-      errors: errors,
-      options: options,
-      responseObject: { getHeader: (name: string) => response.headers.get(name) }
-    });
-    
-    // Send telemetry asynchronously
-    treblle.capture(payload);
+      const payload = buildTrebllePayload({
+        sdkToken: options.sdkToken,
+        apiKey: options.apiKey,
+        request: payloadRequest,
+        response: payloadResponse,
+        errors: errors,
+        options: options,
+        responseObject: { getHeader: (name: string) => sentResponse.headers.get(name) }
+      });
+      
+      // Send telemetry asynchronously
+      treblle.capture(payload, { source: 'app-router', request, response: sentResponse });
+      if (!pending) {
+        registerFlush(treblle, options);
+      }
+      
+      if (options.debug) {
+        console.log(`[Treblle SDK] Next.js: Captured ${request.method} ${routePath} - ${sentResponse.status} (${timing.total_time}μs)`);
+      }
+    };
     
-    if (options.debug) {
-      console.log(`[Treblle SDK] Next.js: Captured ${request.method} ${routePath} - ${response.status} (${duration}μs)`);
+    // With handleStreaming, bodies pass through untouched and are captured when the client has read them,
+    // so streams are never buffered and the timing covers delivery
+    const contentType = response.headers.get('content-type') || '';
+    const transferEncoding = response.headers.get('transfer-encoding');
+    if (options.handleStreaming && response.body) {
+      const isStream = isStreamingResponse(contentType, transferEncoding);
+      let markDone: () => void = () => undefined;
+      const streamDone = new Promise<void>((resolve) => { markDone = resolve; });
+      
+      // Called when the client has read the whole stream, or when it is cancelled or times out
+      // with whatever was captured, so streamDone always settles; runs after streamedResponse exists
+      const body = teeResponseStream(response.body, {
+        contentType,
+        maxBytes: options.streamCapture?.maxBytes,
+        maxEvents: options.streamCapture?.maxEvents,
+        timeoutMs: options.streamCapture?.timeoutMs,
+        elapsed: () => getElapsedTime(requestStartTime)
+      }, (result) => {
+        const truncated = result.totalBytes > result.bytes.byteLength;
+        const responseBody: Promise<any> = isStream
+          ? Promise.resolve({
+            __type: 'stream',
+            contentType,
+            transferEncoding,
+            ...result.body,
+            totalBytes: result.totalBytes,
+            chunkCount: result.chunkCount,
+            completed: result.completed
+          })
+          : !result.completed
+            ? Promise.resolve({
+              __type: 'incomplete_response',
+              size: result.totalBytes,
+              message: 'Response body was not fully read'
+            })
+            : truncated
+              ? Promise.resolve({
+                __type: 'large_response',
+                size: result.totalBytes,
+                message: 'Response body too large to process'
+              })
+              : parseResponseBody(new Response(result.bytes, { headers: response.headers }), options);
+        
+        responseBody
+          .then((parsed) => sendPayload(parsed, result.totalBytes, streamedResponse, {
+            handler_time: duration,
+            time_to_first_byte: result.timeToFirstByte,
+            total_time: result.duration
+          }, streamDone))
+          .catch(() => undefined)
+          .finally(markDone);
+      });
+      
+      const streamedResponse = new Response(body, {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers
+      });
+      // Keep serverless functions alive until the stream is done and telemetry is sent
+      registerFlush(treblle, options, undefined, streamDone);
+      return streamedResponse;
     }
     
-    return response;
+    // Without handleStreaming the body is read before the response is returned, so the client's
+    // first byte and the total time both wait for it
+    const responseBody = await parseResponseBody(response.clone(), options);
+    const totalTime = getElapsedTime(requestStartTime);
+    sendPayload(responseBody, 0, response, { handler_time: duration, time_to_first_byte: totalTime, total_time: totalTime });
+    return settle();
   }) as T;
 }
 
@@ -529,6 +758,9 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
   options: NextjsTreblleOptions,
   handler: T
 ): T {
+  // Read the route manifest now so requests resolve templates from memory
+  void loadRouteTemplates('pages', options.distDir);
+  
   return (async (req: any, res: any) => {
     // Check if SDK is enabled (environment-aware)
     const enabled = (typeof (treblle as any).isEnabled === 'function')
@@ -545,6 +777,8 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
       return handler(req, res);
     }
     
+    const routePath = extractPagesRoute(req, options);
+    
     // Start timing
     const requestStartTime = startTiming();
     const requestTimestamp = new Date().toISOString().replace('T', ' ').substring(0, 19);
@@ -568,11 +802,21 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
     let originalJson = res.json;
     let originalSend = res.send;
     let originalEnd = res.end;
+    const originalWrite = res.write;
     let responseBody: any = {};
     let responseSent = false;
+    let firstByteTime: number | null = null;
+    let endTime: number | null = null;
+    
+    const markFirstByte = () => {
+      if (firstByteTime === null) {
+        firstByteTime = getElapsedTime(requestStartTime);
+      }
+    };
     
     // Intercept response methods
     res.json = function(data: any) {
+      markFirstByte();
       if (!responseSent) {
         responseBody = data;
         responseSent = true;
@@ -581,6 +825,7 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
     };
     
     res.send = function(data: any) {
+      markFirstByte();
       if (!responseSent) {
         responseBody = data;
         responseSent = true;
@@ -589,6 +834,10 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
     };
     
     res.end = function(data?: any) {
+      markFirstByte();
+      if (endTime === null) {
+        endTime = getElapsedTime(requestStartTime);
+      }
       if (!responseSent && data) {
         responseBody = data;
         responseSent = true;
@@ -596,18 +845,33 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
       return originalEnd.call(this, data);
     };
     
-    try {
-      const result = await handler(req, res);
+    if (typeof originalWrite === 'function') {
+      // Streamed responses (res.write) only contribute timing, not body
+      res.write = function(...args: any[]) {
+        markFirstByte();
+        return originalWrite.apply(this, args);
+      };
+    }
+    
+    const sendPayload = (handlerTime: number, statusCode: number = res.statusCode || 200) => {
+      const totalTime = endTime ?? getElapsedTime(requestStartTime);
       
-      // Calculate duration
-      const duration = getElapsedTime(requestStartTime);
+      // Skip requests dropped by sampling
+      if (!shouldCapture(treblle, {
+        path: pathname.split('?')[0],
+        method: req.method,
+        statusCode,
+        hasErrors: errors.length > 0
+      })) {
+        return;
+      }
       
       // Build payload
       const payloadRequest: PayloadRequest = {
         timestamp: requestTimestamp,
-        ip: req.ip || req.connection?.remoteAddress || '127.0.0.1',
-        url: `http://localhost:3000${req.url}`,
-        route_path: pathname,
+        ip: getClientIp(req, options.trustProxy),
+        url: getAbsoluteRequestUrl(req, { trustProxy: options.trustProxy, basePath: options.basePath }),
+        route_path: routePath,
         user_agent: req.headers['user-agent'] || '',
         method: req.method,
         headers: requestHeaders,
@@ -617,10 +881,15 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
 
       const payloadResponse: PayloadResponse = {
         headers: res.getHeaders ? res.getHeaders() : {},
-        code: res.statusCode || 200,
+        code: statusCode,
         size: 0,
-        load_time: duration,
-        body: responseBody
+        load_time: totalTime,
+        body: responseBody,
+        timing: {
+          handler_time: handlerTime,
+          time_to_first_byte: firstByteTime,
+          total_time: totalTime
+        }
       };
 
       const payload = buildTrebllePayload({
@@ -634,11 +903,46 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
       });
       
       // Send telemetry asynchronously
-      treblle.capture(payload);
+      treblle.capture(payload, { source: 'pages-router', request: req, response: res });
       
       if (options.debug) {
-        console.log(`[Treblle SDK] Next.js Pages: Captured ${req.method} ${pathname} - ${res.statusCode} (${duration}μs)`);
+        console.log(`[Treblle SDK] Next.js Pages: Captured ${req.method} ${routePath} - ${statusCode} (${totalTime}μs)`);
       }
+    };
+    
+    try {
+      const result = await handler(req, res);
+      
+      // Calculate duration
+      const duration = getElapsedTime(requestStartTime);
+      
+      // Handlers may return while still streaming; capture once the response finishes
+      if (res.writableEnded === false && typeof res.once === 'function') {
+        const finished = new Promise<void>((resolve) => {
+          let done = false;
+          const onDone = () => {
+            if (done) {
+              return;
+            }
+            done = true;
+            try {
+              sendPayload(duration);
+            } catch (error) {
+              if (options.debug) {
+                console.warn('[Treblle SDK] Failed to capture finished response:', error);
+              }
+            }
+            resolve();
+          };
+          res.once('finish', onDone);
+          res.once('close', onDone);
+        });
+        registerFlush(treblle, options, undefined, finished);
+        return result;
+      }
+      
+      sendPayload(duration);
+      registerFlush(treblle, options);
       
       return result;
     } catch (err: unknown) {
@@ -648,6 +952,16 @@ function createWrappedPagesHandler<T extends NextApiHandler>(
         console.error('[Treblle SDK] Pages handler threw error:', err);
       }
       
+      // Next.js answers 500 unless the handler already sent its headers
+      try {
+        sendPayload(getElapsedTime(requestStartTime), res.headersSent ? res.statusCode : 500);
+        registerFlush(treblle, options);
+      } catch (error) {
+        if (options.debug) {
+          console.warn('[Treblle SDK] Failed to capture errored request:', error);
+        }
+      }
+      
       throw err;
     }
   }) as T;
@@ -662,25 +976,25 @@ function createWrappedMiddleware(
   middleware: NextMiddlewareHandler,
   config?: MiddlewareConfig
 ): NextMiddlewareHandler {
-  return async (request: NextRequest) => {
+  return async (request: NextRequest, event?: NextFetchEvent) => {
     // Check if SDK is enabled (environment-aware)
     const enabled = (typeof (treblle as any).isEnabled === 'function')
       ? (treblle as any).isEnabled()
       : options.enabled !== false;
     if (!enabled) {
-      return middleware(request);
+      return middleware(request, event);
     }
     
     // Check if this request matches our configuration
     if (!matchesMiddlewareConfig(request, config)) {
-      return middleware(request);
+      return middleware(request, event);
     }
     
     const pathname = request.nextUrl.pathname;
     
     // Check path filtering (including default blocked paths)
     if (isDefaultBlockedPath(pathname) || treblle.shouldExcludePath(pathname) || !treblle.isPathIncluded(pathname)) {
-      return middleware(request);
+      return middleware(request, event);
     }
     
     if (options.debugVerbose) {
@@ -707,9 +1021,10 @@ function createWrappedMiddleware(
     // Execute middleware and capture errors
     let response: NextResponse;
     const errors: TreblleError[] = [];
+    let thrown: { error: unknown } | null = null;
     
     try {
-      response = await middleware(request);
+      response = await middleware(request, event);
     } catch (err: unknown) {
       errors.push(treblle.formatError(err));
       
@@ -717,12 +1032,27 @@ function createWrappedMiddleware(
         console.error('[Treblle SDK] Middleware threw error:', err);
       }
       
-      throw err;
+      // Capture the request as the 500 Next.js will send, then rethrow
+      thrown = { error: err };
+      response = new Response(null, { status: 500 }) as NextResponse;
     }
     
+    // Hand the middleware's outcome back to Next.js
+    const settle = (): NextResponse => {
+      if (thrown) {
+        throw thrown.error;
+      }
+      return response;
+    };
+    
     // Calculate duration
     const duration = getElapsedTime(requestStartTime);
     
+    // Skip requests dropped by sampling
+    if (!shouldCapture(treblle, { path: pathname, method: request.method, statusCode: response.status, hasErrors: errors.length > 0 })) {
+      return settle();
+    }
+    
     // Build headers objects
     const requestHeaders: Record<string, any> = {};
     request.headers.forEach((value, key) => {
@@ -747,7 +1077,7 @@ function createWrappedMiddleware(
     // Build payload
     const payloadRequest: PayloadRequest = {
       timestamp: requestTimestamp,
-      ip: getNextClientIp(request),
+      ip: getNextClientIp(request, options.trustProxy),
       url: request.url,
       route_path: pathname,
       user_agent: request.headers.get('user-agent') || '',
@@ -763,7 +1093,8 @@ function createWrappedMiddleware(
       code: response.status,
       size: 0,
       load_time: duration,
-      body: {} // Middleware cannot access downstream response body
+      body: {}, // Middleware cannot access downstream response body
+      timing: { handler_time: duration, time_to_first_byte: duration, total_time: duration }
     };
 
     const payload = buildTrebllePayload({
@@ -780,13 +1111,14 @@ function createWrappedMiddleware(
     });
     
     // Send telemetry asynchronously
-    treblle.capture(payload);
+    treblle.capture(payload, { source: 'next-middleware', request, response });
+    registerFlush(treblle, options, event);
     
     if (options.debug) {
       console.log(`[Treblle SDK] Next.js Middleware: Captured ${request.method} ${pathname} - ${response.status} (${duration}μs)`);
     }
     
-    return response;
+    return settle();
   };
 }
 
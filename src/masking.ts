@@ -3,23 +3,86 @@
  * @description Data masking functionality for Treblle SDK
  */
 
-import { DEFAULT_MASKED_FIELDS } from './types';
+import {
+  DEFAULT_MASKED_FIELDS,
+  DEFAULT_MASKED_COOKIES,
+  TreblleOptions,
+  TrebllePiiDetectionOptions,
+  TreblleMaskingStrategy,
+  TreblleMaskingStrategyShorthand
+} from './types';
 import { checkPayloadSize, createPayloadReplacement } from './core/payload-size';
+import { resolvePiiDetectors, maskPiiInString } from './core/pii-detectors';
+import { MaskPathScope, getScopedMaskPaths, applyMaskPaths } from './core/mask-paths';
+import { createMasker } from './core/mask-strategies';
+import { createFieldMatcher, normalizeFieldName } from './core/field-matcher';
+import { maskCookieHeader, maskSetCookieHeader } from './core/cookies';
+
+/**
+ * Masking behaviour beyond the key list
+ */
+export interface MaskingOptions {
+  piiDetection?: boolean | TrebllePiiDetectionOptions;
+  paths?: string[][]; // Parsed maskPaths selectors for the section being masked
+  strategy?: TreblleMaskingStrategyShorthand | TreblleMaskingStrategy;
+  fieldStrategies?: Record<string, TreblleMaskingStrategyShorthand | TreblleMaskingStrategy>;
+  maxDepth?: number; // Nesting depth after which values are redacted
+  cookies?: boolean; // Mask Cookie/Set-Cookie headers per cookie instead of as a whole
+  maskedCookies?: Array<string | RegExp>; // Cookie names to mask beyond the defaults
+}
+
+// Anything nested deeper than this is redacted rather than sent raw
+const DEFAULT_MAX_DEPTH = 64;
+const DEPTH_LIMIT_PLACEHOLDER = '[Redacted: max depth]';
+const CIRCULAR_PLACEHOLDER = '[Circular]';
+
+/**
+ * @function getMaskingOptions
+ * @description Pick the masking-related settings from SDK options
+ * @param options - SDK options
+ * @param scope - Payload section being masked, selects the matching maskPaths
+ * @returns Masking options for maskSensitiveData
+ */
+export function getMaskingOptions(options: TreblleOptions, scope?: MaskPathScope): MaskingOptions {
+  return {
+    piiDetection: options.piiDetection,
+    paths: scope ? getScopedMaskPaths(options.maskPaths, scope) : undefined,
+    strategy: options.maskingStrategy,
+    fieldStrategies: options.fieldMaskingStrategies,
+    maxDepth: options.maxMaskingDepth,
+    cookies: scope === 'request.headers' || scope === 'response.headers',
+    maskedCookies: options.maskedCookies,
+  };
+}
 
 /**
  * @function maskSensitiveData
  * @description Masks sensitive data in objects
  * @param data - The data to mask
- * @param additionalFields - Additional fields to mask beyond the defaults
+ * @param additionalFields - Additional fields to mask beyond the defaults (names, globs or RegExps)
+ * @param options - Value-pattern detection and other masking settings
  * @returns Masked data
  */
-export function maskSensitiveData(data: any, additionalFields: string[] = []): any {
+export function maskSensitiveData(
+  data: any,
+  additionalFields: Array<string | RegExp> = [],
+  options: MaskingOptions = {}
+): any {
+  const detectors = resolvePiiDetectors(options.piiDetection);
+  const maskValue = createMasker(options.strategy, options.fieldStrategies);
+
+  // Raw text bodies can carry PII too
+  if (typeof data === 'string' && detectors.length > 0) {
+    return maskPiiInString(data, detectors, (match) => maskValue(match));
+  }
+
   if (!data || typeof data !== 'object') {
     return data;
   }
   
-  // Combine default and additional fields
-  const fieldsToMask = [...DEFAULT_MASKED_FIELDS, ...additionalFields];
+  // Combine default and additional fields; fields given their own strategy are masked too
+  const strategyFields = Object.keys(options.fieldStrategies || {});
+  const shouldMaskField = createFieldMatcher([...DEFAULT_MASKED_FIELDS, ...additionalFields, ...strategyFields]);
   
   // Handle Buffer or binary data
   if (Buffer.isBuffer(data)) {
@@ -33,72 +96,132 @@ export function maskSensitiveData(data: any, additionalFields: string[] = []): a
     return createPayloadReplacement(data, sizeInfo);
   }
   
-  // Create a deep copy to avoid modifying original
-  let maskedData: any;
-  try {
-    maskedData = JSON.parse(JSON.stringify(data));
-  } catch (e) {
-    // If we can't clone the object, return a simplified representation
-    return { __type: 'unprocessable', message: 'Unable to process object' };
-  }
+  const shouldMaskCookie = options.cookies
+    ? createFieldMatcher([
+      ...DEFAULT_MASKED_COOKIES,
+      ...DEFAULT_MASKED_FIELDS,
+      ...additionalFields,
+      ...strategyFields,
+      ...(options.maskedCookies || [])
+    ])
+    : null;
   
-  // Process object recursively
-  const processObject = (obj: any, depth = 0) => {
-    // Prevent too deep recursion
-    if (depth > 10) return;
-    
-    for (const key in obj) {
-      // Skip if property doesn't exist
-      if (!Object.prototype.hasOwnProperty.call(obj, key)) {
-        continue;
-      }
-      
-      // Check if key or value indicates a file
-      const isFileKey = ['file', 'files', 'buffer', 'image', 'document', 'attachment', 'upload']
-        .includes(key.toLowerCase());
-        
-      const isFileObj = obj[key] && typeof obj[key] === 'object' && 
-                       (obj[key].buffer || obj[key].data || obj[key].path) && 
-                       (obj[key].mimetype || obj[key].type || obj[key].filename || obj[key].originalname);
-      
-      // Handle file objects
-      if (isFileKey && isFileObj) {
-        const fileObj = obj[key];
-        obj[key] = {
-          __type: 'file',
-          filename: fileObj.originalname || fileObj.filename || 'unknown',
-          size: fileObj.size || (fileObj.buffer ? fileObj.buffer.length : 0) || 0,
-          mimetype: fileObj.mimetype || fileObj.type || 'application/octet-stream'
-        };
-        continue;
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const ancestors = new Set<object>();
+
+  // Copy a value, masking as we go (avoids a JSON round-trip, which fails on cycles and BigInt)
+  const cloneValue = (value: any, key: string | undefined, depth: number): any => {
+    if (value === null || value === undefined) {
+      return value;
+    }
+
+    switch (typeof value) {
+      case 'string':
+        // Look for PII inside free-text values
+        return detectors.length > 0 ? maskPiiInString(value, detectors, (match) => maskValue(match, key)) : value;
+      case 'bigint':
+        return value.toString();
+      case 'function':
+      case 'symbol':
+        return undefined;
+      case 'object':
+        break;
+      default:
+        return value;
+    }
+
+    if (depth > maxDepth) {
+      return DEPTH_LIMIT_PLACEHOLDER;
+    }
+    if (ancestors.has(value)) {
+      return CIRCULAR_PLACEHOLDER;
+    }
+
+    // Handle Buffer, typed arrays and other binary data
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      return { __type: 'binary', size: value.byteLength };
+    }
+    if (value instanceof Date) {
+      return isNaN(value.getTime()) ? null : value.toISOString();
+    }
+    if (typeof value.toJSON === 'function') {
+      return cloneValue(value.toJSON(), key, depth);
+    }
+
+    ancestors.add(value);
+    try {
+      if (Array.isArray(value) || value instanceof Set) {
+        // Functions in arrays serialize as null, as JSON.stringify would
+        return Array.from(value, (item) => {
+          const cloned = cloneValue(item, key, depth + 1);
+          return cloned === undefined ? null : cloned;
+        });
       }
-      
-      // Check if current key should be masked
-      const shouldMask = fieldsToMask.some(field => 
-        key.toLowerCase() === field.toLowerCase()
-      );
-      
-      if (shouldMask && obj[key]) {
-        // Mask the value with asterisks, keeping same length
-        if (typeof obj[key] === 'string') {
-          obj[key] = '*'.repeat(obj[key].length);
+
+      const entries: Array<[string, any]> = value instanceof Map
+        ? Array.from(value.entries(), ([k, v]) => [String(k), v] as [string, any])
+        : Object.keys(value).map((k) => [k, value[k]] as [string, any]);
+
+      const result: Record<string, any> = {};
+      for (const [childKey, child] of entries) {
+        // Check if key or value indicates a file
+        const isFileKey = ['file', 'files', 'buffer', 'image', 'document', 'attachment', 'upload']
+          .includes(childKey.toLowerCase());
+
+        const isFileObj = child && typeof child === 'object' &&
+                         (child.buffer || child.data || child.path) &&
+                         (child.mimetype || child.type || child.filename || child.originalname);
+
+        const headerName = shouldMaskCookie && depth === 0 && child ? normalizeFieldName(childKey) : '';
+
+        if (headerName === 'cookie' && typeof child === 'string') {
+          // Mask session cookies individually; others stay readable
+          result[childKey] = maskCookieHeader(child, shouldMaskCookie!, maskValue);
+        } else if (headerName === 'setcookie' && (typeof child === 'string' || Array.isArray(child))) {
+          result[childKey] = maskSetCookieHeader(child, shouldMaskCookie!, maskValue);
+        } else if (isFileKey && ArrayBuffer.isView(child)) {
+          // Raw file contents under a file-like key
+          result[childKey] = {
+            __type: 'file',
+            filename: 'unknown',
+            size: child.byteLength,
+            mimetype: 'application/octet-stream'
+          };
+        } else if (isFileKey && isFileObj) {
+          // Handle file objects
+          result[childKey] = {
+            __type: 'file',
+            filename: child.originalname || child.filename || 'unknown',
+            size: child.size || (child.buffer ? child.buffer.length : 0) || 0,
+            mimetype: child.mimetype || child.type || 'application/octet-stream'
+          };
+        } else if (child && shouldMaskField(childKey)) {
+          // Mask the value using the configured strategy
+          result[childKey] = maskValue(child, childKey);
         } else {
-          obj[key] = '*****';
-        }
-      } else if (obj[key] && typeof obj[key] === 'object' && !Array.isArray(obj[key])) {
-        // Recursively process nested objects
-        processObject(obj[key], depth + 1);
-      } else if (Array.isArray(obj[key])) {
-        // Process each array item
-        for (let i = 0; i < obj[key].length; i++) {
-          if (obj[key][i] && typeof obj[key][i] === 'object') {
-            processObject(obj[key][i], depth + 1);
+          const cloned = cloneValue(child, childKey, depth + 1);
+          if (cloned !== undefined || child === undefined) {
+            result[childKey] = cloned;
           }
         }
       }
+      return result;
+    } finally {
+      ancestors.delete(value);
     }
   };
-  
-  processObject(maskedData);
+
+  let maskedData: any;
+  try {
+    maskedData = cloneValue(data, undefined, 0);
+  } catch (e) {
+    // Throwing getters or toJSON, or nesting too deep for the stack
+    return { __type: 'unprocessable', message: 'Unable to process object' };
+  }
+
+  if (options.paths && options.paths.length > 0) {
+    applyMaskPaths(maskedData, options.paths, maskValue);
+  }
+
   return maskedData;
 }
\ No newline at end of file
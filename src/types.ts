@@ -18,9 +18,73 @@ export interface TreblleOptions {
     apiKey: string;
     
     /**
-     * Additional fields to mask beyond the default ones
+     * Additional fields to mask beyond the default ones.
+     * Names ignore case and `-`/`_` separators and may use `*`/`?` globs (e.g. `*_token`); RegExps test the raw key.
      */
-    additionalMaskedFields?: string[];
+    additionalMaskedFields?: Array<string | RegExp>;
+
+    /**
+     * Mask PII found inside string values regardless of key name.
+     * `true` enables every built-in detector (off by default).
+     */
+    piiDetection?: boolean | TrebllePiiDetectionOptions;
+
+    /**
+     * Selectors for specific fields to mask, scoped to one payload section:
+     * request.headers, request.query, request.body, response.headers or response.body.
+     * Supports `*` (any key or index), `**` (any depth) and `[n]`, e.g. `response.body.items[*].token`
+     */
+    maskPaths?: string[];
+
+    /**
+     * How masked values are replaced (default: 'asterisks', keeping string length)
+     */
+    maskingStrategy?: TreblleMaskingStrategyShorthand | TreblleMaskingStrategy;
+
+    /**
+     * Per-field strategies keyed by field name (ignoring case and separators), overriding maskingStrategy
+     */
+    fieldMaskingStrategies?: Record<string, TreblleMaskingStrategyShorthand | TreblleMaskingStrategy>;
+
+    /**
+     * Nesting depth after which values are redacted instead of sent (default: 64)
+     */
+    maxMaskingDepth?: number;
+
+    /**
+     * Cookie names to mask in Cookie/Set-Cookie headers beyond the session-like defaults.
+     * Other cookies and Set-Cookie attributes stay visible.
+     */
+    maskedCookies?: Array<string | RegExp>;
+
+    /**
+     * Path segments to mask in request.url and route_path. Strings are route patterns whose
+     * `:name` segments are masked (e.g. `/reset/:token`); RegExps mask any matching segment
+     */
+    maskUrlSegments?: Array<string | RegExp>;
+
+    /**
+     * Which proxies in front of the app are trusted for the client IP and forwarded
+     * URL headers: `true` (default) trusts all, `false` none, a number trusts that many
+     * hops, a CIDR list trusts those addresses, or a platform preset
+     */
+    trustProxy?: TreblleTrustProxy;
+
+    /**
+     * How the client IP is sent, in request.ip and IP-bearing request headers
+     * (X-Forwarded-For, Forwarded, CF-Connecting-IP...): 'full' (default),
+     * 'truncate' (IPv4 /24, IPv6 /48), 'hash' (salted SHA-256; requires { mode: 'hash', salt },
+     * otherwise truncates) or 'omit'
+     */
+    ipPrivacy?: TreblleIpPrivacy;
+
+    /**
+     * Restrict which headers are captured, separately for requests and responses
+     */
+    captureHeaders?: {
+      request?: TreblleHeaderCaptureRule;
+      response?: TreblleHeaderCaptureRule;
+    };
     
     /**
      * Enable debug mode to log errors to console
@@ -72,8 +136,342 @@ export interface TreblleOptions {
      * Enable memory-efficient size estimation (default: true)
      */
     enableSizeEstimation?: boolean;
+
+    /**
+     * Queue captured payloads in memory and send them to Treblle in batches
+     * instead of one request per API call. Pass `true` to use the defaults.
+     */
+    batching?: boolean | TreblleBatchingOptions;
+
+    /**
+     * Retry failed sends with exponential backoff, moving to the next
+     * Treblle endpoint on each attempt. Set to `false` to disable retries.
+     */
+    retry?: false | TreblleRetryOptions;
+
+    /**
+     * Custom transport used instead of the built-in HTTPS/fetch sender.
+     * send() always receives a single payload; with batching on, sendBatch() receives each batch,
+     * or each payload of the batch goes to send() when the transport has no sendBatch().
+     */
+    transport?: TreblleTransport;
+
+    /**
+     * Custom ingestion URLs (self-hosted or region-pinned) used instead of the
+     * default Treblle endpoints. Must be HTTPS; plain HTTP is accepted for loopback hosts only.
+     */
+    endpoints?: string[];
+
+    /**
+     * HTTP(S) proxy for outgoing requests in the Node runtime, e.g. 'http://proxy.internal:3128'.
+     * Defaults to HTTPS_PROXY/HTTP_PROXY (honoring NO_PROXY); set to `false` to ignore them.
+     */
+    proxy?: string | false;
+
+    /**
+     * Compress outgoing payloads (gzip by default) and send them with a
+     * Content-Encoding header. Pass `true` to use the defaults.
+     */
+    compression?: boolean | TreblleCompressionOptions;
+
+    /**
+     * Capture only a share of requests. Errors and 5xx responses are always kept
+     * unless configured otherwise.
+     * Example: { rate: 0.1, routes: [{ pattern: '/api/orders/*', rate: 1 }] }
+     */
+    sampling?: TreblleSamplingOptions;
+
+    /**
+     * Inspect or change each payload after masking and before it is sent.
+     * Return the (modified) payload, or null to drop it. May be async.
+     */
+    beforeSend?: (payload: any, context: TreblleCaptureContext) => any | null | Promise<any | null>;
+  }
+
+  /**
+   * Header capture rule. Names are case-insensitive and may use `*` globs (e.g. `x-internal-*`)
+   */
+  export interface TreblleHeaderCaptureRule {
+    /**
+     * 'allowlist' sends only the listed headers; 'denylist' sends all but the listed headers
+     */
+    mode: 'allowlist' | 'denylist';
+
+    /**
+     * Header names, globs or RegExps
+     */
+    headers: Array<string | RegExp>;
+  }
+
+  /**
+   * Platforms whose edge sets a client IP header that can't be spoofed
+   */
+  export type TreblleTrustProxyPreset = 'vercel' | 'cloudflare' | 'aws-alb';
+
+  /**
+   * Trusted proxy configuration: all/none, hop count, CIDR list, or platform preset
+   */
+  export type TreblleTrustProxy = boolean | number | string[] | TreblleTrustProxyPreset;
+
+  /**
+   * Client IP privacy modes
+   */
+  export type TreblleIpPrivacyMode = 'full' | 'truncate' | 'hash' | 'omit';
+
+  /**
+   * Client IP privacy with its settings
+   */
+  export interface TreblleIpPrivacyOptions {
+    /**
+     * Mode to apply
+     */
+    mode: TreblleIpPrivacyMode;
+
+    /**
+     * Salt prepended before hashing with 'hash' (required; keep it secret)
+     */
+    salt?: string;
+  }
+
+  export type TreblleIpPrivacy = TreblleIpPrivacyMode | TreblleIpPrivacyOptions;
+
+  /**
+   * Masking strategies: asterisks, fixed placeholder, partial reveal, or salted SHA-256 hash
+   */
+  export type TreblleMaskingStrategyType = 'asterisks' | 'placeholder' | 'partial' | 'hash';
+
+  /**
+   * Strategies that can be named on their own; 'hash' needs a salt, so it takes the object form
+   */
+  export type TreblleMaskingStrategyShorthand = Exclude<TreblleMaskingStrategyType, 'hash'>;
+
+  /**
+   * Masking strategy with its settings
+   */
+  export interface TreblleBasicMaskingStrategy {
+    /**
+     * Strategy to apply
+     */
+    type: TreblleMaskingStrategyShorthand;
+
+    /**
+     * Replacement text for 'placeholder' (default: '[REDACTED]')
+     */
+    placeholder?: string;
+
+    /**
+     * Trailing characters left visible by 'partial' (default: 4)
+     */
+    visibleChars?: number;
+  }
+
+  /**
+   * Salted SHA-256 hash. Without a salt, low-entropy values (card numbers, emails, IDs)
+   * could be recovered by brute force, so a missing salt falls back to 'placeholder'.
+   */
+  export interface TreblleHashMaskingStrategy {
+    type: 'hash';
+
+    /**
+     * Secret salt prepended before hashing
+     */
+    salt: string;
+  }
+
+  export type TreblleMaskingStrategy = TreblleBasicMaskingStrategy | TreblleHashMaskingStrategy;
+
+  /**
+   * Built-in value detectors
+   */
+  export type BuiltinPiiDetector = 'creditCard' | 'email' | 'iban' | 'jwt' | 'bearer' | 'ssn';
+
+  /**
+   * Value-pattern PII detection configuration
+   */
+  export interface TrebllePiiDetectionOptions {
+    /**
+     * Card numbers passing the Luhn check (default: true)
+     */
+    creditCard?: boolean;
+
+    /**
+     * Email addresses (default: true)
+     */
+    email?: boolean;
+
+    /**
+     * IBANs passing the mod-97 check (default: true)
+     */
+    iban?: boolean;
+
+    /**
+     * JSON Web Tokens (default: true)
+     */
+    jwt?: boolean;
+
+    /**
+     * "Bearer <token>" credentials; the scheme is kept (default: true)
+     */
+    bearer?: boolean;
+
+    /**
+     * US Social Security Numbers (default: true)
+     */
+    ssn?: boolean;
+
+    /**
+     * Additional detectors; every match is masked
+     */
+    custom?: Array<RegExp | { name?: string; pattern: RegExp }>;
+  }
+
+  /**
+   * Where a captured payload came from, passed to beforeSend
+   */
+  export interface TreblleCaptureContext {
+    /**
+     * Integration that produced the payload
+     */
+    source: 'manual' | 'express' | 'app-router' | 'pages-router' | 'next-middleware';
+
+    /**
+     * Original request object (Request, NextRequest or Node request)
+     */
+    request?: any;
+
+    /**
+     * Original response object (Response, NextResponse or Node response)
+     */
+    response?: any;
+  }
+
+  /**
+   * Sampling configuration for Treblle SDK
+   */
+  export interface TreblleSamplingOptions {
+    /**
+     * Share of requests to capture, from 0 to 1 (default: 1)
+     */
+    rate?: number;
+
+    /**
+     * Per-route rates using the same pattern syntax as excludePaths; first match wins
+     */
+    routes?: Array<{ pattern: string | RegExp; rate: number }>;
+
+    /**
+     * Status codes that are always captured; accepts numbers and classes like '5xx' (default: ['5xx'])
+     */
+    alwaysKeepStatus?: Array<number | string>;
+
+    /**
+     * Always capture requests that recorded errors (default: true)
+     */
+    alwaysKeepErrors?: boolean;
+
+    /**
+     * Custom sampling decision, consulted after the always-keep rules.
+     * Return true to capture, false to drop, or undefined to fall back to the rates.
+     */
+    sampler?: (context: TreblleSamplingContext) => boolean | undefined;
+  }
+
+  /**
+   * Request information available to sampling decisions
+   */
+  export interface TreblleSamplingContext {
+    /**
+     * Request path without the query string
+     */
+    path: string;
+
+    /**
+     * HTTP method
+     */
+    method: string;
+
+    /**
+     * Response status code
+     */
+    statusCode: number;
+
+    /**
+     * Whether any errors were recorded for the request
+     */
+    hasErrors: boolean;
+  }
+
+  /**
+   * Compression configuration for Treblle SDK
+   */
+  export interface TreblleCompressionOptions {
+    /**
+     * Content-Encoding to use (default: 'gzip')
+     */
+    encoding?: 'gzip' | 'deflate';
+
+    /**
+     * Payloads smaller than this many bytes are sent uncompressed (default: 1024)
+     */
+    threshold?: number;
+  }
+
+  /**
+   * Sends captured payloads to their destination. Rejections and throws are handled by the SDK.
+   */
+  export interface TreblleTransport {
+    /**
+     * Deliver one payload (never an array). Used for every payload when batching is off,
+     * and for each payload of a batch when sendBatch() is not implemented.
+     */
+    send(payload: any): Promise<void>;
+
+    /**
+     * Deliver one batch from the queue when batching is on, as an array of payloads
+     */
+    sendBatch?(payloads: any[]): Promise<void>;
+  }
+
+  /**
+   * Batching configuration for Treblle SDK
+   */
+  export interface TreblleBatchingOptions {
+    /**
+     * Number of payloads sent per request (default: 10)
+     */
+    batchSize?: number;
+
+    /**
+     * Maximum time in milliseconds a payload waits before being flushed (default: 1000)
+     */
+    flushInterval?: number;
+
+    /**
+     * Maximum number of queued payloads; the oldest are dropped when full (default: 100)
+     */
+    maxQueueSize?: number;
   }
   
+  /**
+   * Retry configuration for Treblle SDK
+   */
+  export interface TreblleRetryOptions {
+    /**
+     * Maximum number of retries per payload (default: 2)
+     */
+    maxRetries?: number;
+
+    /**
+     * Delay in milliseconds before the first retry; doubles on every attempt (default: 200)
+     */
+    baseDelayMs?: number;
+
+    /**
+     * Upper bound in milliseconds for a single backoff delay (default: 2000)
+     */
+    maxDelayMs?: number;
+  }
+
   /**
    * Environment configuration for Treblle SDK
    */
@@ -198,3 +596,22 @@ export interface TreblleOptions {
     'jwt',
     'token'
   ];
+
+  /**
+   * Default masked cookie names (globs; case and `-`/`_` ignored)
+   */
+  export const DEFAULT_MASKED_COOKIES = [
+    '*session*',
+    '*sess',
+    '*sessid',
+    'sid',
+    '*.sid',
+    '*token*',
+    '*auth*',
+    '*jwt*',
+    '*csrf*',
+    '*xsrf*',
+    'remember*',
+    '__secure*',
+    '__host*'
+  ];
@@ -3,7 +3,8 @@
  * @description Utility functions for Treblle SDK
  */
 
-import { TreblleOptions } from './types';
+import { TreblleOptions, TreblleTrustProxy } from './types';
+import { resolveClientIp } from './core/client-ip';
 
 /**
  * @function getCurrentEnvironment
@@ -110,16 +111,22 @@ export function isEnabledForEnvironment(config: TreblleOptions): boolean {
 
 /**
  * @function getClientIp
- * @description Gets the client IP address
+ * @description Gets the client IP address from a Node.js request
  * @param req - Request object
+ * @param trustProxy - Trusted proxy configuration (default: trust all)
  * @returns Client IP address
  */
-export function getClientIp(req: any): string {
-  return req.headers['x-forwarded-for'] || 
-         req.connection?.remoteAddress || 
-         req.socket?.remoteAddress || 
-         req.connection?.socket?.remoteAddress || 
-         '127.0.0.1';
+export function getClientIp(req: any, trustProxy?: TreblleTrustProxy): string {
+  const headers = req.headers || {};
+  return resolveClientIp({
+    header: (name) => {
+      const value = headers[name];
+      return Array.isArray(value) ? value.join(', ') : value;
+    },
+    remoteAddress: req.connection?.remoteAddress ||
+      req.socket?.remoteAddress ||
+      req.connection?.socket?.remoteAddress
+  }, trustProxy);
 }
 
 /**
@@ -229,30 +236,15 @@ export function hrToMicro(hrtime: [number, number]): number {
  * @function getNextClientIp
  * @description Helper to extract client IP from Next.js Request
  * @param req - Next.js Request object
+ * @param trustProxy - Trusted proxy configuration (default: trust all)
  * @returns Client IP address
  */
-export function getNextClientIp(req: Request): string {
-  // Try headers in order of preference
-  const headers = req.headers;
-  
-  const forwardedFor = headers.get('x-forwarded-for');
-  if (forwardedFor) {
-    // Get the first IP from the comma-separated list
-    return forwardedFor.split(',')[0].trim();
-  }
-  
-  const realIp = headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
-  }
-  
-  const clientIp = headers.get('x-client-ip');
-  if (clientIp) {
-    return clientIp;
-  }
-  
-  // Fallback to localhost
-  return '127.0.0.1';
+export function getNextClientIp(req: Request, trustProxy?: TreblleTrustProxy): string {
+  return resolveClientIp({
+    header: (name) => req.headers.get(name) ?? undefined,
+    // NextRequest.ip is set by some platforms (removed in Next.js 15)
+    remoteAddress: (req as any).ip
+  }, trustProxy);
 }
 
 /**
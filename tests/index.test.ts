@@ -3,7 +3,7 @@
  * @description Core tests for the Treblle SDK functionality (NextJS only)
  */
 
-import Treblle from '../src';
+import Treblle, { TreblleTransport } from '../src';
 import https from 'https';
 
 // Mock https module
@@ -23,6 +23,13 @@ describe('Treblle SDK Core Functionality', () => {
   let treblle: Treblle;
   let originalNodeEnv: string | undefined;
 
+  // Batching instances are shut down after each test so their queues don't outlive the suite
+  const batchingInstances: Treblle[] = [];
+  const trackBatching = (instance: Treblle): Treblle => {
+    batchingInstances.push(instance);
+    return instance;
+  };
+
   beforeEach(() => {
     jest.clearAllMocks();
     originalNodeEnv = process.env.NODE_ENV;
@@ -39,10 +46,12 @@ describe('Treblle SDK Core Functionality', () => {
     });
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     if (originalNodeEnv !== undefined) {
       Object.defineProperty(process.env, 'NODE_ENV', { value: originalNodeEnv, writable: true, configurable: true });
     }
+    // The mocked https request never responds, so bound the final flush
+    await Promise.all([treblle, ...batchingInstances.splice(0)].map((instance) => instance.shutdown(10)));
   });
 
   describe('Initialization', () => {
@@ -178,6 +187,23 @@ describe('Treblle SDK Core Functionality', () => {
       expect(https.request).toHaveBeenCalled();
     });
 
+    test('should report invalid endpoints at construction and stay disabled', async () => {
+      const insecure = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        endpoints: ['http://insecure.example.com']
+      });
+
+      expect(console.error).toHaveBeenCalledWith(
+        'Treblle SDK only supports HTTPS endpoints (got http://insecure.example.com); telemetry is disabled'
+      );
+      expect(insecure.isEnabled()).toBe(false);
+
+      insecure.capture({ test: 'data' });
+      await insecure.flush();
+      expect(https.request).not.toHaveBeenCalled();
+    });
+
     test('should not send payload when disabled', () => {
       const disabledTreblle = new Treblle({
         sdkToken: 'test-sdk-token',
@@ -190,6 +216,432 @@ describe('Treblle SDK Core Functionality', () => {
       
       expect(https.request).not.toHaveBeenCalled();
     });
+
+    test('should batch payloads when batching is enabled', async () => {
+      const batchingTreblle = trackBatching(new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        batching: { batchSize: 2, flushInterval: 60000 }
+      }));
+
+      batchingTreblle.capture({ n: 1 });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      expect(https.request).not.toHaveBeenCalled();
+
+      batchingTreblle.capture({ n: 2 });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      // Batch items are POSTed one at a time; the next waits for the first response
+      expect(https.request).toHaveBeenCalledTimes(1);
+      expect(mockRequest.write).toHaveBeenCalledWith(JSON.stringify({ n: 1 }));
+    });
+  });
+
+  describe('Sampling', () => {
+    const createSampled = (sampling: any) => new Treblle({
+      sdkToken: 'test-sdk-token',
+      apiKey: 'test-api-key',
+      sampling
+    });
+    const ctx = (overrides: any = {}) => ({
+      path: '/api/users',
+      method: 'GET',
+      statusCode: 200,
+      hasErrors: false,
+      ...overrides
+    });
+
+    test('should capture everything when sampling is not configured', () => {
+      expect(treblle.shouldSample(ctx())).toBe(true);
+    });
+
+    test('should apply the global rate', () => {
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(createSampled({ rate: 0.4 }).shouldSample(ctx())).toBe(false);
+      expect(createSampled({ rate: 0.6 }).shouldSample(ctx())).toBe(true);
+      expect(createSampled({ rate: 0 }).shouldSample(ctx())).toBe(false);
+
+      randomSpy.mockRestore();
+    });
+
+    test('should prefer the first matching route rate', () => {
+      const sampled = createSampled({
+        rate: 0,
+        routes: [
+          { pattern: '/api/orders/*', rate: 1 },
+          { pattern: /^\/api\/orders/, rate: 0 }
+        ]
+      });
+
+      expect(sampled.shouldSample(ctx({ path: '/api/orders/42' }))).toBe(true);
+      expect(sampled.shouldSample(ctx({ path: '/api/users' }))).toBe(false);
+    });
+
+    test('should always keep errors and 5xx by default', () => {
+      const sampled = createSampled({ rate: 0 });
+
+      expect(sampled.shouldSample(ctx({ statusCode: 503 }))).toBe(true);
+      expect(sampled.shouldSample(ctx({ hasErrors: true }))).toBe(true);
+      expect(sampled.shouldSample(ctx({ statusCode: 404 }))).toBe(false);
+    });
+
+    test('should honor custom always-keep status rules', () => {
+      const sampled = createSampled({ rate: 0, alwaysKeepStatus: [404, '4xx'], alwaysKeepErrors: false });
+
+      expect(sampled.shouldSample(ctx({ statusCode: 429 }))).toBe(true);
+      expect(sampled.shouldSample(ctx({ statusCode: 500 }))).toBe(false);
+      expect(sampled.shouldSample(ctx({ hasErrors: true }))).toBe(false);
+    });
+
+    test('should use the sampler callback and fall back to rates on undefined', () => {
+      const sampler = jest.fn((context: any) => (context.method === 'POST' ? true : undefined));
+      const sampled = createSampled({ rate: 0, sampler });
+
+      expect(sampled.shouldSample(ctx({ method: 'POST' }))).toBe(true);
+      expect(sampled.shouldSample(ctx({ method: 'GET' }))).toBe(false);
+      expect(sampler).toHaveBeenCalledWith(expect.objectContaining({ path: '/api/users' }));
+    });
+
+    test('should skip capture in middleware when sampled out', () => {
+      const sampled = createSampled({ rate: 0 });
+      const captureSpy = jest.spyOn(sampled, 'capture');
+      const req: any = { method: 'GET', url: '/api/test', originalUrl: '/api/test', headers: {}, body: {} };
+      const res: any = { statusCode: 200, send: jest.fn(), json: jest.fn(), end: jest.fn(), getHeaders: () => ({}) };
+
+      sampled.middleware()(req, res, jest.fn());
+      res.end();
+
+      expect(captureSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Header Capture', () => {
+    const captureWith = (captureHeaders: any) => {
+      const instance = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        captureHeaders
+      });
+      const captureSpy = jest.spyOn(instance, 'capture').mockImplementation(() => undefined);
+      const req: any = {
+        method: 'GET',
+        url: '/api/test',
+        originalUrl: '/api/test',
+        headers: {
+          host: 'localhost',
+          'content-type': 'application/json',
+          'x-request-id': 'abc',
+          'x-internal-trace': 'secret-route',
+          'cf-access-jwt-assertion': 'eyJ...'
+        },
+        body: {}
+      };
+      const res: any = {
+        statusCode: 200,
+        send: jest.fn(),
+        json: jest.fn(),
+        end: jest.fn(),
+        getHeaders: () => ({ 'Content-Type': 'application/json', 'X-Powered-By': 'Express', 'x-internal-node': 'n1' })
+      };
+
+      instance.middleware()(req, res, jest.fn());
+      res.end();
+
+      return captureSpy.mock.calls[0][0].data;
+    };
+
+    test('should send every header when no rules are set', () => {
+      const data = captureWith(undefined);
+
+      expect(Object.keys(data.request.headers)).toHaveLength(5);
+      expect(Object.keys(data.response.headers)).toHaveLength(3);
+    });
+
+    test('should apply allowlist and denylist rules case-insensitively', () => {
+      const data = captureWith({
+        request: { mode: 'allowlist', headers: ['Content-Type', 'X-Request-Id'] },
+        response: { mode: 'denylist', headers: ['x-powered-by', 'x-internal-*'] }
+      });
+
+      expect(data.request.headers).toEqual({ 'content-type': 'application/json', 'x-request-id': 'abc' });
+      expect(data.response.headers).toEqual({ 'Content-Type': 'application/json' });
+    });
+  });
+
+  describe('IP Privacy', () => {
+    const captureWith = (ipPrivacy: any) => {
+      const instance = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        ipPrivacy
+      });
+      const captureSpy = jest.spyOn(instance, 'capture').mockImplementation(() => undefined);
+      const req: any = {
+        method: 'GET',
+        url: '/api/test',
+        originalUrl: '/api/test',
+        headers: {
+          host: 'localhost',
+          'x-forwarded-for': '203.0.113.195, 10.0.0.7',
+          forwarded: 'for=203.0.113.195;proto=https'
+        },
+        body: {}
+      };
+      const res: any = { statusCode: 200, send: jest.fn(), json: jest.fn(), end: jest.fn(), getHeaders: () => ({}) };
+
+      instance.middleware()(req, res, jest.fn());
+      res.end();
+
+      return captureSpy.mock.calls[0][0].data.request;
+    };
+
+    test('should send the full IP by default', () => {
+      const request = captureWith(undefined);
+
+      expect(request.ip).toBe('203.0.113.195');
+      expect(request.headers['x-forwarded-for']).toBe('203.0.113.195, 10.0.0.7');
+    });
+
+    test('should warn and truncate when hashing without a salt', () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const request = captureWith('hash');
+
+      expect(warnSpy).toHaveBeenCalledWith('[Treblle SDK] ipPrivacy \'hash\' requires a salt; client IPs are truncated instead');
+      expect(request.ip).toBe('203.0.113.0');
+      warnSpy.mockRestore();
+    });
+
+    test('should truncate request.ip and forwarded headers', () => {
+      const request = captureWith('truncate');
+
+      expect(request.ip).toBe('203.0.113.0');
+      expect(request.headers['x-forwarded-for']).toBe('203.0.113.0, 10.0.0.0');
+      expect(request.headers.forwarded).toBe('for="203.0.113.0";proto=https');
+    });
+
+    test('should omit request.ip and IP-bearing headers', () => {
+      const request = captureWith('omit');
+
+      expect(request.ip).toBe('');
+      expect(request.headers).toEqual({ host: 'localhost' });
+    });
+  });
+
+  describe('Custom Transport', () => {
+    test('should send payloads through a custom transport', async () => {
+      const transport = { send: jest.fn().mockResolvedValue(undefined) };
+      const customTreblle = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        transport
+      });
+
+      customTreblle.capture({ test: 'data' });
+      await customTreblle.flush();
+
+      expect(transport.send).toHaveBeenCalledWith({ test: 'data' });
+      expect(https.request).not.toHaveBeenCalled();
+    });
+
+    test('should handle transport rejections', async () => {
+      const transport = { send: jest.fn().mockRejectedValue(new Error('sink down')) };
+      const customTreblle = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        debug: true,
+        transport
+      });
+
+      customTreblle.capture({ test: 'data' });
+      await customTreblle.flush();
+
+      expect(console.error).toHaveBeenCalledWith('[Treblle SDK Error]:', 'sink down');
+    });
+
+    test('should handle transports that throw synchronously', () => {
+      const transport: TreblleTransport = {
+        send: jest.fn((): Promise<void> => { throw new Error('sync failure'); })
+      };
+      const customTreblle = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        transport
+      });
+
+      expect(() => customTreblle.capture({ test: 'data' })).not.toThrow();
+    });
+  });
+
+  describe('beforeSend', () => {
+    const createTreblle = (beforeSend: any, extra: any = {}) => {
+      const transport = { send: jest.fn().mockResolvedValue(undefined) };
+      const instance = new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        transport,
+        beforeSend,
+        ...extra
+      });
+      if (extra.batching) {
+        trackBatching(instance);
+      }
+      return { instance, transport };
+    };
+
+    test('should send the payload returned by the hook', async () => {
+      const { instance, transport } = createTreblle((payload: any) => ({ ...payload, tagged: true }));
+
+      instance.capture({ test: 'data' });
+      await instance.flush();
+
+      expect(transport.send).toHaveBeenCalledWith({ test: 'data', tagged: true });
+    });
+
+    test('should drop the payload when the hook returns null', async () => {
+      const { instance, transport } = createTreblle(() => null);
+
+      instance.capture({ test: 'data' });
+      await instance.flush();
+
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    test('should wait for async hooks on flush', async () => {
+      const { instance, transport } = createTreblle(async (payload: any) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { ...payload, enriched: true };
+      });
+
+      instance.capture({ test: 'data' });
+      await instance.flush();
+
+      expect(transport.send).toHaveBeenCalledWith({ test: 'data', enriched: true });
+    });
+
+    test('should queue async results when batching is enabled', async () => {
+      const { instance, transport } = createTreblle(
+        async (payload: any) => payload,
+        { batching: { batchSize: 5, flushInterval: 60000 } }
+      );
+
+      instance.capture({ n: 1 });
+      instance.capture({ n: 2 });
+      await instance.flush();
+
+      expect(transport.send).toHaveBeenCalledTimes(2);
+      expect(transport.send).toHaveBeenCalledWith({ n: 1 });
+      expect(transport.send).toHaveBeenCalledWith({ n: 2 });
+    });
+
+    test('should hand whole batches to transports with sendBatch', async () => {
+      const transport: TreblleTransport = {
+        send: jest.fn(async () => undefined),
+        sendBatch: jest.fn(async () => undefined)
+      };
+      const instance = trackBatching(new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        transport,
+        batching: { batchSize: 5, flushInterval: 60000 }
+      }));
+
+      instance.capture({ n: 1 });
+      instance.capture({ n: 2 });
+      await instance.flush();
+
+      expect(transport.sendBatch).toHaveBeenCalledWith([{ n: 1 }, { n: 2 }]);
+      expect(transport.send).not.toHaveBeenCalled();
+    });
+
+    test('should drop the payload when the hook throws', async () => {
+      const { instance, transport } = createTreblle(() => {
+        throw new Error('hook failure');
+      }, { debug: true });
+
+      expect(() => instance.capture({ test: 'data' })).not.toThrow();
+      await instance.flush();
+
+      expect(transport.send).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('[Treblle SDK Error]:', 'hook failure');
+    });
+
+    test('should drop the payload when an async hook rejects', async () => {
+      const { instance, transport } = createTreblle(async () => {
+        throw new Error('async hook failure');
+      }, { debug: true });
+
+      instance.capture({ test: 'data' });
+      await instance.flush();
+
+      expect(transport.send).not.toHaveBeenCalled();
+      expect(console.error).toHaveBeenCalledWith('[Treblle SDK Error]:', 'async hook failure');
+    });
+
+    test('should pass the capture context to the hook', async () => {
+      const beforeSend = jest.fn((payload: any) => payload);
+      const { instance } = createTreblle(beforeSend);
+      const req = { url: '/api/test' };
+
+      instance.capture({ test: 'data' }, { source: 'app-router', request: req });
+      instance.capture({ other: 'data' });
+      await instance.flush();
+
+      expect(beforeSend).toHaveBeenNthCalledWith(1, { test: 'data' }, { source: 'app-router', request: req });
+      expect(beforeSend).toHaveBeenNthCalledWith(2, { other: 'data' }, { source: 'manual' });
+    });
+  });
+
+  describe('Flush and Shutdown', () => {
+    test('should resolve flush once in-flight sends settle', async () => {
+      let finish: () => void = () => undefined;
+      (https.request as jest.Mock).mockImplementationOnce((_options: any, callback: any) => {
+        finish = () => callback({
+          statusCode: 200,
+          on: (event: string, handler: () => void) => {
+            if (event === 'end') handler();
+          }
+        });
+        return mockRequest;
+      });
+
+      treblle.capture({ test: 'data' });
+
+      let flushed = false;
+      const flushing = treblle.flush().then(() => { flushed = true; });
+      await new Promise<void>((resolve) => setTimeout(resolve, 0));
+      expect(flushed).toBe(false);
+
+      finish();
+      await flushing;
+      expect(flushed).toBe(true);
+    });
+
+    test('should resolve flush after the timeout when sends hang', async () => {
+      treblle.capture({ test: 'data' });
+
+      await expect(treblle.flush(10)).resolves.toBeUndefined();
+    });
+
+    test('should drain the batching queue on flush', async () => {
+      const batchingTreblle = trackBatching(new Treblle({
+        sdkToken: 'test-sdk-token',
+        apiKey: 'test-api-key',
+        batching: { batchSize: 10, flushInterval: 60000 }
+      }));
+
+      batchingTreblle.capture({ n: 1 });
+      await batchingTreblle.flush(10);
+
+      expect(https.request).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop capturing after shutdown', async () => {
+      await treblle.shutdown(10);
+      treblle.capture({ test: 'data' });
+
+      expect(https.request).not.toHaveBeenCalled();
+      expect(treblle.isEnabled()).toBe(false);
+    });
   });
 
   describe('Middleware Functionality', () => {
@@ -5,6 +5,19 @@
 
 import { withTreblle, treblleHandler } from '../../src/integrations/nextjs';
 import type { NextRouteHandler } from '../../src/integrations/nextjs';
+import { getTreblleInstance } from '../../src/core/instance-manager';
+
+// Keep telemetry sends off the network; the request never responds, like an unreachable endpoint
+jest.mock('https', () => ({
+  ...jest.requireActual('https'),
+  request: jest.fn(() => ({
+    on: jest.fn().mockReturnThis(),
+    setTimeout: jest.fn().mockReturnThis(),
+    write: jest.fn().mockReturnThis(),
+    end: jest.fn(),
+    destroy: jest.fn()
+  }))
+}));
 
 describe('Next.js Integration Tests', () => {
   const treblleOptions = {
@@ -91,7 +104,7 @@ describe('Next.js Integration Tests', () => {
 
     test('should handle dynamic routes with parameters', async () => {
       const dynamicHandler: NextRouteHandler<{ id: string; action: string }> = async (request, context) => {
-        const { params } = context;
+        const params = await context.params;
         const url = new URL(request.url);
         
         return Response.json({
@@ -324,6 +337,23 @@ describe('Next.js Integration Tests', () => {
       expect(data.error).toBe('Invalid JSON');
     });
 
+    test('should keep thrown errors under a zero sampling rate', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const options = { ...treblleOptions, debug: false, transport: sink, sampling: { rate: 0 } };
+      const handler: NextRouteHandler = async () => {
+        throw new Error('Database unavailable');
+      };
+
+      await expect(withTreblle(options)(handler)(new Request('http://localhost:3000/api/fail'), { params: {} }))
+        .rejects.toThrow('Database unavailable');
+      await getTreblleInstance(options).flush();
+
+      expect(sink.send).toHaveBeenCalledTimes(1);
+      const { data } = (sink.send.mock.calls[0] as any[])[0];
+      expect(data.response.code).toBe(500);
+      expect(data.errors[0].message).toBe('Database unavailable');
+    });
+
     test('should handle timeout scenarios', async () => {
       const timeoutHandler: NextRouteHandler = async () => {
         // Simulate a long-running operation
@@ -372,6 +402,40 @@ describe('Next.js Integration Tests', () => {
       expect(data.status).toBe('ok');
     });
 
+    test('should send each wrapper\'s payloads to its own transport', async () => {
+      const sinkA = { send: jest.fn(async () => undefined) };
+      const sinkB = { send: jest.fn(async () => undefined) };
+      const optionsA = { ...treblleOptions, debug: false, transport: sinkA };
+      const optionsB = { ...treblleOptions, debug: false, transport: sinkB };
+      const handler: NextRouteHandler = async () => Response.json({ ok: true });
+
+      await withTreblle(optionsA)(handler)(new Request('http://localhost:3000/api/a'), { params: {} });
+      await withTreblle(optionsB)(handler)(new Request('http://localhost:3000/api/b'), { params: {} });
+      await getTreblleInstance(optionsA).flush();
+      await getTreblleInstance(optionsB).flush();
+
+      expect(getTreblleInstance(optionsA)).not.toBe(getTreblleInstance(optionsB));
+      expect(sinkA.send).toHaveBeenCalledTimes(1);
+      expect(sinkB.send).toHaveBeenCalledTimes(1);
+      expect((sinkA.send.mock.calls[0] as any[])[0].data.request.url).toContain('/api/a');
+      expect((sinkB.send.mock.calls[0] as any[])[0].data.request.url).toContain('/api/b');
+    });
+
+    test('should apply each wrapper\'s own beforeSend hook', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const keepOptions = { ...treblleOptions, debug: false, transport: sink, beforeSend: (payload: any) => payload };
+      const dropOptions = { ...treblleOptions, debug: false, transport: sink, beforeSend: () => null };
+      const handler: NextRouteHandler = async () => Response.json({ ok: true });
+
+      await withTreblle(keepOptions)(handler)(new Request('http://localhost:3000/api/keep'), { params: {} });
+      await withTreblle(dropOptions)(handler)(new Request('http://localhost:3000/api/drop'), { params: {} });
+      await getTreblleInstance(keepOptions).flush();
+      await getTreblleInstance(dropOptions).flush();
+
+      expect(sink.send).toHaveBeenCalledTimes(1);
+      expect((sink.send.mock.calls[0] as any[])[0].data.request.url).toContain('/api/keep');
+    });
+
     test('should handle requests with no body', async () => {
       const handler: NextRouteHandler = async (request) => {
         const hasBody = request.body !== null;
@@ -393,4 +457,137 @@ describe('Next.js Integration Tests', () => {
       expect(data.hasBody).toBe(false);
     });
   });
+
+  describe('Streaming Responses', () => {
+    const encoder = new TextEncoder();
+    const streamingOptions = (sink: { send: jest.Mock }, waitUntil: jest.Mock) => ({
+      ...treblleOptions,
+      debug: false,
+      transport: sink,
+      handleStreaming: true,
+      waitUntil
+    });
+
+    test('should capture NDJSON streams with their streamed size', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const waitUntil = jest.fn();
+      const options = streamingOptions(sink, waitUntil);
+      const lines = '{"delta":"Hel"}\n{"delta":"lo"}\n';
+      const handler: NextRouteHandler = async () => new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(encoder.encode(lines));
+            controller.close();
+          }
+        }),
+        { headers: { 'content-type': 'application/x-ndjson' } }
+      );
+
+      const response = await withTreblle(options)(handler)(new Request('http://localhost:3000/api/ndjson'), { params: {} });
+      expect(await response.text()).toBe(lines);
+      await waitUntil.mock.calls[0][0];
+      await getTreblleInstance(options).flush();
+
+      const { response: payloadResponse } = (sink.send.mock.calls[0] as any[])[0].data;
+      expect(payloadResponse.size).toBe(encoder.encode(lines).byteLength);
+      expect(payloadResponse.body).toEqual(expect.objectContaining({
+        __type: 'stream',
+        format: 'ndjson',
+        lines: [{ delta: 'Hel' }, { delta: 'lo' }],
+        totalBytes: encoder.encode(lines).byteLength
+      }));
+    });
+
+    test('should pass other streams through before they finish and time their delivery', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const waitUntil = jest.fn();
+      const options = streamingOptions(sink, waitUntil);
+      let controller!: ReadableStreamDefaultController<Uint8Array>;
+      const handler: NextRouteHandler = async () => new Response(
+        new ReadableStream<Uint8Array>({ start(c) { controller = c; } }),
+        { headers: { 'content-type': 'text/plain' } }
+      );
+
+      // Resolves while the handler's stream is still open
+      const response = await withTreblle(options)(handler)(new Request('http://localhost:3000/api/text'), { params: {} });
+      const text = response.text();
+      controller.enqueue(encoder.encode('first '));
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      controller.enqueue(encoder.encode('second'));
+      controller.close();
+
+      expect(await text).toBe('first second');
+      await waitUntil.mock.calls[0][0];
+      await getTreblleInstance(options).flush();
+
+      const { response: payloadResponse } = (sink.send.mock.calls[0] as any[])[0].data;
+      expect(payloadResponse.body).toEqual({ __type: 'text', content: 'first second' });
+      expect(payloadResponse.timing.time_to_first_byte).toBeGreaterThanOrEqual(payloadResponse.timing.handler_time);
+      expect(payloadResponse.timing.total_time).toBeGreaterThan(payloadResponse.timing.time_to_first_byte);
+      expect(payloadResponse.load_time).toBe(payloadResponse.timing.total_time);
+    });
+
+    test('should settle and capture when a streamed body is never read', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const waitUntil = jest.fn();
+      const options = { ...streamingOptions(sink, waitUntil), streamCapture: { timeoutMs: 20 } };
+      const handler: NextRouteHandler = async () => new Response(
+        new ReadableStream<Uint8Array>({ start() { /* never produces */ } }),
+        { headers: { 'content-type': 'application/x-ndjson' } }
+      );
+
+      await withTreblle(options)(handler)(new Request('http://localhost:3000/api/unread'), { params: {} });
+      await waitUntil.mock.calls[0][0];
+
+      const { response: payloadResponse } = (sink.send.mock.calls[0] as any[])[0].data;
+      expect(payloadResponse.body).toEqual(expect.objectContaining({ __type: 'stream', completed: false, totalBytes: 0 }));
+      // Timing still gets recorded, ending when the capture gave up
+      expect(payloadResponse.timing.time_to_first_byte).toBeNull();
+      expect(payloadResponse.timing.total_time).toBeGreaterThan(payloadResponse.timing.handler_time);
+      expect(payloadResponse.load_time).toBe(payloadResponse.timing.total_time);
+    });
+
+    test('should capture a cancelled body with what was sent', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const waitUntil = jest.fn();
+      const options = streamingOptions(sink, waitUntil);
+      const handler: NextRouteHandler = async () => new Response(
+        new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode('partial'));
+          }
+        }),
+        { headers: { 'content-type': 'text/plain' } }
+      );
+
+      const response = await withTreblle(options)(handler)(new Request('http://localhost:3000/api/cancel'), { params: {} });
+      const reader = response.body!.getReader();
+      await reader.read();
+      await reader.cancel();
+      await waitUntil.mock.calls[0][0];
+
+      const { response: payloadResponse } = (sink.send.mock.calls[0] as any[])[0].data;
+      expect(payloadResponse.body).toEqual({
+        __type: 'incomplete_response',
+        size: 7,
+        message: 'Response body was not fully read'
+      });
+    });
+
+    test('should parse buffered bodies as usual', async () => {
+      const sink = { send: jest.fn(async () => undefined) };
+      const waitUntil = jest.fn();
+      const options = streamingOptions(sink, waitUntil);
+      const handler: NextRouteHandler = async () => Response.json({ ok: true });
+
+      const response = await withTreblle(options)(handler)(new Request('http://localhost:3000/api/json'), { params: {} });
+      expect(await response.json()).toEqual({ ok: true });
+      await waitUntil.mock.calls[0][0];
+      await getTreblleInstance(options).flush();
+
+      const { response: payloadResponse } = (sink.send.mock.calls[0] as any[])[0].data;
+      expect(payloadResponse.body).toEqual({ ok: true });
+      expect(payloadResponse.size).toBe(11);
+    });
+  });
 });
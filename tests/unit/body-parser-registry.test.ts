@@ -0,0 +1,147 @@
+/**
+ * @file tests/unit/body-parser-registry.test.ts
+ * @description Tests for the content-type body parser registry and built-in decoders
+ */
+
+import { findBodyParser, registerBodyParser, runBodyParser } from '../../src/core/body-parser-registry';
+import { decodeCbor, decodeMsgpack } from '../../src/core/binary-decoders';
+import { parseXml } from '../../src/core/xml-parser';
+import { parseNextjsRequestBody, parseNextjsResponseBody } from '../../src/core/body-parsers';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const parse = async (contentType: string, body: Uint8Array) =>
+  runBodyParser(findBodyParser(contentType)!, body, contentType);
+
+describe('Body Parser Registry', () => {
+  describe('XML', () => {
+    test('should convert attributes, text and repeated children', () => {
+      const xml = '<?xml version="1.0"?><order id="42"><item sku="A">Pen &amp; ink</item><item>Paper</item><note><![CDATA[<fragile>]]></note><gift/></order>';
+
+      expect(parseXml(xml)).toEqual({
+        order: {
+          '@id': '42',
+          item: [{ '@sku': 'A', '#text': 'Pen & ink' }, 'Paper'],
+          note: '<fragile>',
+          gift: null
+        }
+      });
+    });
+
+    test('should reject malformed documents', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow();
+      expect(() => parseXml('<a/><b/>')).toThrow();
+    });
+
+    test('should parse XML bodies including +xml types', async () => {
+      expect(await parse('application/soap+xml; charset=utf-8', encode('<Envelope><Body>ok</Body></Envelope>')))
+        .toEqual({ Envelope: { Body: 'ok' } });
+    });
+
+    test('should keep malformed XML as text', async () => {
+      expect(await parse('text/xml', encode('<a><b></a>'))).toBe('<a><b></a>');
+    });
+  });
+
+  test('should describe GraphQL documents', async () => {
+    const query = '# list users\nquery ListUsers { users { id } }';
+
+    expect(await parse('application/graphql', encode(query))).toEqual({
+      query,
+      operationType: 'query',
+      operationName: 'ListUsers'
+    });
+    expect((await parse('application/graphql', encode('{ me { id } }'))).operationType).toBe('query');
+  });
+
+  test('should parse NDJSON lines', async () => {
+    expect(await parse('application/x-ndjson', encode('{"a":1}\n{"a":2}\n'))).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  test('should decode CBOR', () => {
+    // {"a": 1, "b": [true, null, -2], "c": h'0102', "d": 1.5}
+    const bytes = Uint8Array.from([
+      0xa4, 0x61, 0x61, 0x01, 0x61, 0x62, 0x83, 0xf5, 0xf6, 0x21,
+      0x61, 0x63, 0x42, 0x01, 0x02, 0x61, 0x64, 0xf9, 0x3e, 0x00
+    ]);
+
+    expect(decodeCbor(bytes)).toEqual({ a: 1, b: [true, null, -2], c: { __type: 'binary', size: 2 }, d: 1.5 });
+  });
+
+  test('should decode MessagePack', () => {
+    // {"id": 300, "name": "pen", "tags": [-1, false], "score": 0.5}
+    const bytes = Uint8Array.from([
+      0x84, 0xa2, 0x69, 0x64, 0xcd, 0x01, 0x2c, 0xa4, 0x6e, 0x61, 0x6d, 0x65, 0xa3, 0x70, 0x65, 0x6e,
+      0xa4, 0x74, 0x61, 0x67, 0x73, 0x92, 0xff, 0xc2, 0xa5, 0x73, 0x63, 0x6f, 0x72, 0x65,
+      0xcb, 0x3f, 0xe0, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00
+    ]);
+
+    expect(decodeMsgpack(bytes)).toEqual({ id: 300, name: 'pen', tags: [-1, false], score: 0.5 });
+  });
+
+  test('should keep __proto__ keys as data instead of changing the prototype', () => {
+    const proto = Array.from(encode('__proto__'));
+    const decoded = [
+      // CBOR {"__proto__": {"x": 1}}
+      decodeCbor(Uint8Array.from([0xa1, 0x69, ...proto, 0xa1, 0x61, 0x78, 0x01])),
+      // MessagePack {"__proto__": {"x": 1}}
+      decodeMsgpack(Uint8Array.from([0x81, 0xa9, ...proto, 0x81, 0xa1, 0x78, 0x01])),
+      parseXml('<a><__proto__><x>1</x></__proto__></a>').a
+    ];
+
+    for (const value of decoded) {
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype);
+      expect(Object.keys(value)).toEqual(['__proto__']);
+      expect(value.x).toBeUndefined();
+      expect(JSON.stringify(value)).toMatch(/^\{"__proto__":\{"x":(1|"1")\}\}$/);
+    }
+  });
+
+  test('should summarize bodies that fail to decode', async () => {
+    expect(await parse('application/msgpack', Uint8Array.from([0x92, 0x01]))).toEqual({
+      __type: 'binary',
+      size: 2,
+      contentType: 'application/msgpack'
+    });
+  });
+
+  test('should summarize protobuf until a decoder is registered', async () => {
+    const contentType = 'application/x-protobuf; proto=shop.Order';
+    const bytes = Uint8Array.from([0x08, 0x2a]);
+
+    expect(await parse(contentType, bytes)).toEqual({
+      __type: 'protobuf',
+      size: 2,
+      contentType,
+      messageType: 'shop.Order'
+    });
+
+    registerBodyParser('application/x-protobuf', (body) => ({ id: body[1] }));
+    expect(await parse(contentType, bytes)).toEqual({ id: 42 });
+  });
+
+  test('should match globs and RegExps, preferring later registrations', () => {
+    const first = () => 'first';
+    const second = () => 'second';
+    registerBodyParser('application/vnd.acme.*', first);
+    registerBodyParser(/^application\/vnd\.acme\.v2/, second);
+
+    expect(findBodyParser('application/vnd.acme.v1')).toBe(first);
+    expect(findBodyParser('Application/VND.ACME.v2; charset=utf-8')).toBe(second);
+    expect(findBodyParser('text/plain')).toBeNull();
+  });
+
+  test('should use registered parsers for Next.js requests and responses', async () => {
+    registerBodyParser('text/csv', (body) => new TextDecoder().decode(body).split('\n').map((row) => row.split(',')));
+
+    const request = new Request('http://localhost:3000/api/import', {
+      method: 'POST',
+      headers: { 'content-type': 'text/csv' },
+      body: 'a,b\n1,2'
+    });
+    const response = new Response('x,y', { headers: { 'content-type': 'text/csv' } });
+
+    expect(await parseNextjsRequestBody(request)).toEqual([['a', 'b'], ['1', '2']]);
+    expect(await parseNextjsResponseBody(response)).toEqual([['x', 'y']]);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * @file tests/unit/body-parsers.test.ts
+ * @description Tests for request/response body parsing
+ */
+
+import { parseNextjsRequestBody } from '../../src/core/body-parsers';
+
+describe('Body Parsers', () => {
+  describe('multipart/form-data', () => {
+    const buildRequest = () => {
+      const form = new FormData();
+      form.append('title', 'Quarterly report');
+      form.append('tags', 'finance');
+      form.append('tags', 'q3');
+      form.append('document', new Blob(['%PDF-1.4 fake'], { type: 'application/pdf' }), 'report.pdf');
+      return new Request('http://localhost:3000/api/upload', { method: 'POST', body: form });
+    };
+
+    test('should keep text fields and summarize files', async () => {
+      const body = await parseNextjsRequestBody(buildRequest());
+
+      expect(body).toEqual({
+        title: 'Quarterly report',
+        tags: ['finance', 'q3'],
+        document: { __type: 'file', filename: 'report.pdf', size: 13, mimetype: 'application/pdf' }
+      });
+    });
+
+    test('should not buffer bodies over the size limit', async () => {
+      const body = await parseNextjsRequestBody(buildRequest(), { maxMultipartSize: 64 });
+
+      expect(body).toEqual(expect.objectContaining({
+        __type: 'multipart',
+        message: 'Multipart body exceeds size limit'
+      }));
+      expect(body.contentType).toContain('multipart/form-data; boundary=');
+    });
+
+    test('should skip reading when Content-Length exceeds the limit', async () => {
+      const request = new Request('http://localhost:3000/api/upload', {
+        method: 'POST',
+        headers: { 'content-type': 'multipart/form-data; boundary=x', 'content-length': '999999' },
+        body: '--x--'
+      });
+
+      const body = await parseNextjsRequestBody(request, { maxMultipartSize: 1000 });
+
+      expect(body).toEqual({
+        __type: 'multipart',
+        contentType: 'multipart/form-data; boundary=x',
+        size: 999999,
+        message: 'Multipart body exceeds size limit'
+      });
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * @file tests/unit/client-ip.test.ts
+ * @description Tests for client IP resolution with trusted proxies
+ */
+
+import { parseIp, normalizeIp, resolveClientIp, isPeerTrusted, ClientIpSource } from '../../src/core/client-ip';
+
+const source = (headers: Record<string, string>, remoteAddress?: string): ClientIpSource => ({
+  header: (name) => headers[name],
+  remoteAddress
+});
+
+describe('Client IP', () => {
+  describe('parseIp / normalizeIp', () => {
+    test('should parse IPv4, IPv6 and IPv4-mapped addresses', () => {
+      expect(parseIp('10.0.0.1')).toEqual({ version: 4, value: BigInt(0x0a000001) });
+      expect(parseIp('::ffff:10.0.0.1')).toEqual({ version: 4, value: BigInt(0x0a000001) });
+      expect(parseIp('2001:db8::1')?.version).toBe(6);
+      expect(parseIp('::1')?.value).toBe(BigInt(1));
+    });
+
+    test('should reject invalid addresses', () => {
+      expect(parseIp('256.0.0.1')).toBeNull();
+      expect(parseIp('1::2::3')).toBeNull();
+      expect(parseIp('evil.example.com')).toBeNull();
+    });
+
+    test('should strip ports, brackets and quotes', () => {
+      expect(normalizeIp('203.0.113.7:51234')).toBe('203.0.113.7');
+      expect(normalizeIp('"[2001:db8::17]:4711"')).toBe('2001:db8::17');
+      expect(normalizeIp('unknown')).toBeNull();
+    });
+  });
+
+  describe('resolveClientIp', () => {
+    const headers = { 'x-forwarded-for': '1.1.1.1, 2.2.2.2, 3.3.3.3' };
+
+    test('should take the first forwarded hop when all proxies are trusted', () => {
+      expect(resolveClientIp(source(headers, '10.0.0.5'))).toBe('1.1.1.1');
+    });
+
+    test('should prefer CDN client IP headers when all proxies are trusted', () => {
+      expect(resolveClientIp(source({ ...headers, 'true-client-ip': '9.9.9.9' }))).toBe('9.9.9.9');
+      expect(resolveClientIp(source({ 'fly-client-ip': '8.8.8.8' }))).toBe('8.8.8.8');
+    });
+
+    test('should skip forwarded entries that are not IPs', () => {
+      expect(resolveClientIp(source({ 'x-forwarded-for': '<script>, 4.4.4.4' }))).toBe('4.4.4.4');
+    });
+
+    test('should ignore headers when no proxy is trusted', () => {
+      expect(resolveClientIp(source(headers, '::ffff:10.0.0.5'), false)).toBe('::ffff:10.0.0.5');
+      expect(resolveClientIp(source(headers), 0)).toBe('127.0.0.1');
+    });
+
+    test('should count trusted hops from the right', () => {
+      expect(resolveClientIp(source(headers, '10.0.0.5'), 1)).toBe('3.3.3.3');
+      expect(resolveClientIp(source(headers, '10.0.0.5'), 2)).toBe('2.2.2.2');
+      expect(resolveClientIp(source(headers, '10.0.0.5'), 10)).toBe('1.1.1.1');
+    });
+
+    test('should skip trusted CIDR ranges from the right', () => {
+      const chain = { 'x-forwarded-for': '6.6.6.6, 1.1.1.1, 10.1.2.3' };
+
+      expect(resolveClientIp(source(chain, '10.0.0.5'), ['10.0.0.0/8'])).toBe('1.1.1.1');
+      expect(resolveClientIp(source(chain, '192.0.2.1'), ['10.0.0.0/8'])).toBe('192.0.2.1');
+      expect(resolveClientIp(source(chain, '10.0.0.5'), ['10.0.0.0/8', '1.1.1.1'])).toBe('6.6.6.6');
+    });
+
+    test('should read the RFC 7239 Forwarded header', () => {
+      const forwarded = { forwarded: 'for="[2001:db8:cafe::17]:4711";proto=https, for=192.0.2.43;by=10.0.0.1' };
+
+      expect(resolveClientIp(source(forwarded))).toBe('2001:db8:cafe::17');
+      expect(resolveClientIp(source(forwarded, '10.0.0.1'), 1)).toBe('192.0.2.43');
+    });
+
+    test('should use platform presets', () => {
+      const spoofed = { ...headers, 'cf-connecting-ip': '5.5.5.5', 'x-real-ip': '7.7.7.7' };
+
+      expect(resolveClientIp(source(spoofed), 'cloudflare')).toBe('5.5.5.5');
+      expect(resolveClientIp(source(spoofed), 'vercel')).toBe('7.7.7.7');
+      expect(resolveClientIp(source(spoofed), 'aws-alb')).toBe('3.3.3.3');
+      expect(resolveClientIp(source({}, '10.0.0.5'), 'cloudflare')).toBe('10.0.0.5');
+    });
+  });
+
+  describe('isPeerTrusted', () => {
+    test('should apply CIDR lists to the socket peer', () => {
+      expect(isPeerTrusted('10.0.0.5', ['10.0.0.0/8'])).toBe(true);
+      expect(isPeerTrusted('203.0.113.9', ['10.0.0.0/8'])).toBe(false);
+      expect(isPeerTrusted(undefined, ['10.0.0.0/8'])).toBe(true);
+    });
+
+    test('should trust presets and hop counts of at least one', () => {
+      expect(isPeerTrusted('203.0.113.9', 'vercel')).toBe(true);
+      expect(isPeerTrusted('203.0.113.9', 2)).toBe(true);
+      expect(isPeerTrusted('203.0.113.9', 0)).toBe(false);
+      expect(isPeerTrusted('203.0.113.9', false)).toBe(false);
+    });
+  });
+});
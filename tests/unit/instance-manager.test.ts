@@ -33,5 +33,25 @@ describe('Instance Manager', () => {
     expect(a).not.toBe(b);
     expect(getInstanceCount()).toBe(2);
   });
+
+  test('should key instances on transport identity', () => {
+    const transport = { send: jest.fn(async () => undefined) };
+    const a = getTreblleInstance({ ...baseOptions, transport } as any);
+    const b = getTreblleInstance({ ...baseOptions, transport: { send: jest.fn(async () => undefined) } } as any);
+    const c = getTreblleInstance({ ...baseOptions, transport } as any);
+    expect(a).not.toBe(b);
+    expect(a).toBe(c);
+  });
+
+  test('should key instances on beforeSend and sampler hooks', () => {
+    const keepAll = () => true;
+    const a = getTreblleInstance({ ...baseOptions, beforeSend: (p: any) => p } as any);
+    const b = getTreblleInstance({ ...baseOptions, beforeSend: () => null } as any);
+    const c = getTreblleInstance({ ...baseOptions, sampling: { sampler: keepAll } } as any);
+    const d = getTreblleInstance({ ...baseOptions, sampling: { sampler: () => false } } as any);
+    expect(a).not.toBe(b);
+    expect(c).not.toBe(d);
+    expect(getTreblleInstance({ ...baseOptions, sampling: { sampler: keepAll } } as any)).toBe(c);
+  });
 });
 
@@ -0,0 +1,89 @@
+/**
+ * @file tests/unit/ip-privacy.test.ts
+ * @description Tests for client IP anonymization
+ */
+
+import { anonymizeIp, anonymizeIpHeaders, isUnsaltedIpHash } from '../../src/core/ip-privacy';
+import { buildTrebllePayload } from '../../src/core/payload';
+
+describe('IP Privacy', () => {
+  describe('anonymizeIp', () => {
+    test('should keep the address in full mode', () => {
+      expect(anonymizeIp('203.0.113.195', undefined)).toBe('203.0.113.195');
+      expect(anonymizeIp('203.0.113.195', 'full')).toBe('203.0.113.195');
+    });
+
+    test('should truncate IPv4 to /24 and IPv6 to /48', () => {
+      expect(anonymizeIp('203.0.113.195', 'truncate')).toBe('203.0.113.0');
+      expect(anonymizeIp('2001:db8:85a3:8d3:1319:8a2e:370:7348', 'truncate')).toBe('2001:db8:85a3::');
+      expect(anonymizeIp('::ffff:198.51.100.23', 'truncate')).toBe('198.51.100.0');
+      expect(anonymizeIp('not-an-ip', 'truncate')).toBeNull();
+    });
+
+    test('should hash with the salt', () => {
+      const hashed = anonymizeIp('203.0.113.195', { mode: 'hash', salt: 'pepper' });
+
+      expect(hashed).toMatch(/^sha256:[0-9a-f]{64}$/);
+      expect(anonymizeIp('203.0.113.195', { mode: 'hash', salt: 'pepper' })).toBe(hashed);
+      expect(anonymizeIp('203.0.113.195', { mode: 'hash', salt: 'salt' })).not.toBe(hashed);
+    });
+
+    test('should truncate instead of hashing without a salt', () => {
+      expect(anonymizeIp('203.0.113.195', 'hash')).toBe('203.0.113.0');
+      expect(anonymizeIp('203.0.113.195', { mode: 'hash', salt: '' })).toBe('203.0.113.0');
+      expect(isUnsaltedIpHash('hash')).toBe(true);
+      expect(isUnsaltedIpHash({ mode: 'hash', salt: 'pepper' })).toBe(false);
+      expect(isUnsaltedIpHash('truncate')).toBe(false);
+    });
+
+    test('should omit the address', () => {
+      expect(anonymizeIp('203.0.113.195', 'omit')).toBeNull();
+    });
+  });
+
+  describe('anonymizeIpHeaders', () => {
+    const headers = {
+      'X-Forwarded-For': '203.0.113.195, 2001:db8:85a3::1',
+      forwarded: 'for="[2001:db8:cafe::17]:4711";proto=https, for=unknown',
+      'x-real-ip': ['198.51.100.23'],
+      'user-agent': 'curl/8.0'
+    };
+
+    test('should truncate every address in list and Forwarded headers', () => {
+      expect(anonymizeIpHeaders(headers, 'truncate')).toEqual({
+        'X-Forwarded-For': '203.0.113.0, 2001:db8:85a3::',
+        forwarded: 'for="[2001:db8:cafe::]";proto=https, for=unknown',
+        'x-real-ip': ['198.51.100.0'],
+        'user-agent': 'curl/8.0'
+      });
+    });
+
+    test('should drop IP-bearing headers when omitting', () => {
+      expect(anonymizeIpHeaders(headers, 'omit')).toEqual({ 'user-agent': 'curl/8.0' });
+    });
+  });
+
+  test('should apply to payloads built for the Next.js wrappers', () => {
+    const payload = buildTrebllePayload({
+      sdkToken: 'sdk',
+      apiKey: 'key',
+      request: {
+        timestamp: '2024-01-01 00:00:00',
+        ip: '203.0.113.195',
+        url: 'https://example.com/api/test',
+        route_path: '/api/test',
+        user_agent: '',
+        method: 'GET',
+        headers: { 'cf-connecting-ip': '203.0.113.195' },
+        query: {},
+        body: {}
+      },
+      response: { headers: {}, code: 200, size: 0, load_time: 1, body: {} },
+      errors: [],
+      options: { sdkToken: 'sdk', apiKey: 'key', ipPrivacy: 'truncate' }
+    });
+
+    expect(payload.data.request.ip).toBe('203.0.113.0');
+    expect(payload.data.request.headers['cf-connecting-ip']).toBe('203.0.113.0');
+  });
+});
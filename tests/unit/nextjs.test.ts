@@ -29,6 +29,7 @@ jest.mock('../../src/core/instance-manager', () => ({
 // Mock utils
 jest.mock('../../src/utils', () => ({
   hrToMicro: jest.fn(() => 1234),
+  getClientIp: jest.fn(() => '127.0.0.1'),
   getNextClientIp: jest.fn(() => '127.0.0.1'),
   getNextRoutePath: jest.fn(() => '/api/test')
 }));
@@ -244,7 +245,7 @@ describe('Next.js Integration', () => {
 
     test('should handle dynamic routes with params', async () => {
       const originalHandler: NextRouteHandler<{ id: string }> = async (_request, context) => {
-        const { id } = context.params || {};
+        const { id } = (await context.params) || ({} as { id?: string });
         return new Response(JSON.stringify({ id }), {
           status: 200,
           headers: { 'content-type': 'application/json' }
@@ -642,4 +643,344 @@ describe('Next.js Integration', () => {
       expect(response.body).toBeInstanceOf(ReadableStream);
     });
   });
+
+  describe('Serverless Flush', () => {
+    const mockInstanceWithFlush = (flush: jest.Mock) => {
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture: jest.fn(),
+        flush
+      });
+    };
+
+    test('should hand treblle.flush() to a custom waitUntil', async () => {
+      const flushPromise = Promise.resolve();
+      const flush = jest.fn(() => flushPromise);
+      mockInstanceWithFlush(flush);
+
+      const waitUntil = jest.fn();
+      const wrapper = withTreblle({ ...treblleOptions, waitUntil });
+      const wrappedHandler = wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK'));
+
+      await wrappedHandler(new Request('http://localhost:3000/api/test'), { params: {} });
+
+      expect(flush).toHaveBeenCalled();
+      expect(waitUntil).toHaveBeenCalledWith(flushPromise);
+    });
+
+    test('should use the middleware event waitUntil', async () => {
+      const flush = jest.fn(() => Promise.resolve());
+      mockInstanceWithFlush(flush);
+
+      const { withTreblleMiddleware } = require('../../src/integrations/nextjs');
+      const wrapped = withTreblleMiddleware(treblleOptions)(async () => new Response('OK'));
+      const request: any = new Request('http://localhost:3000/api/test');
+      request.nextUrl = new URL(request.url);
+      const event = { waitUntil: jest.fn() };
+
+      await wrapped(request, event);
+
+      expect(event.waitUntil).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not register a flush when waitUntil is false', async () => {
+      const flush = jest.fn(() => Promise.resolve());
+      mockInstanceWithFlush(flush);
+
+      const wrapper = withTreblle({ ...treblleOptions, waitUntil: false });
+      const wrappedHandler = wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK'));
+
+      await wrappedHandler(new Request('http://localhost:3000/api/test'), { params: {} });
+
+      expect(flush).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sampling', () => {
+    test('should not capture requests dropped by sampling', async () => {
+      const capture = jest.fn();
+      const shouldSample = jest.fn(() => false);
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture,
+        shouldSample
+      });
+
+      const wrapper = withTreblle(treblleOptions);
+      const wrappedHandler = wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK', { status: 201 }));
+
+      const response = await wrappedHandler(new Request('http://localhost:3000/api/test?x=1', { method: 'POST' }), { params: {} });
+
+      expect(response.status).toBe(201);
+      expect(shouldSample).toHaveBeenCalledWith({ path: '/api/test', method: 'POST', statusCode: 201, hasErrors: false });
+      expect(capture).not.toHaveBeenCalled();
+    });
+
+    test('should sample and capture errored requests before rethrowing', async () => {
+      const capture = jest.fn();
+      const shouldSample = jest.fn(() => true);
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn((err: Error) => ({ message: err.message })),
+        capture,
+        shouldSample
+      });
+      const { buildTrebllePayload } = require('../../src/core/payload');
+      buildTrebllePayload.mockClear();
+      const fail = async (..._args: any[]): Promise<any> => {
+        throw new Error('Boom');
+      };
+
+      const wrapper = createTreblleWrapper(treblleOptions);
+      await expect(wrapper.handler(fail)(new Request('http://localhost:3000/api/app'), { params: {} }))
+        .rejects.toThrow('Boom');
+      await expect(wrapper.pagesHandler(fail)({ method: 'GET', url: '/api/pages', headers: {} }, { statusCode: 200 }))
+        .rejects.toThrow('Boom');
+      const request: any = new Request('http://localhost:3000/api/middleware');
+      request.nextUrl = new URL(request.url);
+      await expect(wrapper.middleware(fail)(request)).rejects.toThrow('Boom');
+
+      expect(shouldSample.mock.calls.map(([context]: any[]) => context)).toEqual([
+        { path: '/api/app', method: 'GET', statusCode: 500, hasErrors: true },
+        { path: '/api/pages', method: 'GET', statusCode: 500, hasErrors: true },
+        { path: '/api/middleware', method: 'GET', statusCode: 500, hasErrors: true }
+      ]);
+      expect(capture).toHaveBeenCalledTimes(3);
+      buildTrebllePayload.mock.calls.forEach(([input]: any[]) => {
+        expect(input.response.code).toBe(500);
+        expect(input.errors).toEqual([{ message: 'Boom' }]);
+      });
+    });
+  });
+
+  describe('Streaming Capture', () => {
+    test('should capture streamed bodies once the stream closes', async () => {
+      const capture = jest.fn();
+      const flush = jest.fn(() => Promise.resolve());
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture,
+        flush
+      });
+      const { buildTrebllePayload } = require('../../src/core/payload');
+      buildTrebllePayload.mockClear();
+
+      const waitUntil = jest.fn();
+      const wrapper = withTreblle({ ...treblleOptions, handleStreaming: true, waitUntil });
+      const wrappedHandler = wrapper(async (_req: Request, _ctx: { params?: any }) => new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('data: {"delta":"Hi"}\n\n'));
+            controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+            controller.close();
+          }
+        }),
+        { status: 200, headers: { 'content-type': 'text/event-stream' } }
+      ));
+
+      const response = await wrappedHandler(new Request('http://localhost:3000/api/chat'), { params: {} });
+
+      expect(capture).not.toHaveBeenCalled();
+      expect(waitUntil).toHaveBeenCalledTimes(1);
+
+      const text = await response.text();
+      await waitUntil.mock.calls[0][0];
+
+      expect(text).toBe('data: {"delta":"Hi"}\n\ndata: [DONE]\n\n');
+      expect(capture).toHaveBeenCalledTimes(1);
+      expect(flush).toHaveBeenCalled();
+      const { response: payloadResponse } = buildTrebllePayload.mock.calls[0][0];
+      expect(payloadResponse.size).toBe(text.length);
+      expect(payloadResponse.load_time).toBe(payloadResponse.timing.total_time);
+      expect(payloadResponse.timing.handler_time).toEqual(expect.any(Number));
+      expect(payloadResponse.body).toEqual(expect.objectContaining({
+        __type: 'stream',
+        format: 'sse',
+        events: [{ data: { delta: 'Hi' } }, { data: '[DONE]' }],
+        chunkCount: 2,
+        completed: true
+      }));
+    });
+  });
+
+  describe('Timing', () => {
+    const mockInstance = (capture: jest.Mock) => {
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture
+      });
+      const { buildTrebllePayload } = require('../../src/core/payload');
+      buildTrebllePayload.mockClear();
+      return buildTrebllePayload as jest.Mock;
+    };
+
+    test('should report handler, first byte and total time for buffered responses', async () => {
+      const buildPayload = mockInstance(jest.fn());
+
+      const wrapper = withTreblle(treblleOptions);
+      await wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK'))(
+        new Request('http://localhost:3000/api/test'),
+        { params: {} }
+      );
+
+      const { response } = buildPayload.mock.calls[0][0];
+      expect(response.timing).toEqual({
+        handler_time: expect.any(Number),
+        time_to_first_byte: expect.any(Number),
+        total_time: response.load_time
+      });
+    });
+
+    test('should defer Pages capture until a streamed response finishes', async () => {
+      const { EventEmitter } = require('events');
+      const capture = jest.fn();
+      const buildPayload = mockInstance(capture);
+
+      const res: any = new EventEmitter();
+      res.statusCode = 200;
+      res.writableEnded = false;
+      res.getHeaders = () => ({ 'content-type': 'text/event-stream' });
+      res.write = jest.fn();
+      res.end = jest.fn(() => { res.writableEnded = true; });
+
+      const wrapper = createTreblleWrapper(treblleOptions);
+      const wrapped = wrapper.pagesHandler(async (_req: any, response: any) => {
+        response.write('data: 1\n\n');
+      });
+
+      await wrapped({ method: 'GET', url: '/api/events', headers: {}, body: null }, res);
+      expect(capture).not.toHaveBeenCalled();
+
+      res.end();
+      res.emit('finish');
+      res.emit('close');
+
+      expect(capture).toHaveBeenCalledTimes(1);
+      const { response } = buildPayload.mock.calls[0][0];
+      expect(response.timing.time_to_first_byte).not.toBeNull();
+      expect(response.load_time).toBe(response.timing.total_time);
+    });
+  });
+
+  describe('Route Templates', () => {
+    const mockInstance = () => {
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture: jest.fn()
+      });
+      const { buildTrebllePayload } = require('../../src/core/payload');
+      buildTrebllePayload.mockClear();
+      return buildTrebllePayload as jest.Mock;
+    };
+
+    const captureRoutePath = async (url: string, params: Record<string, any>) => {
+      const buildTrebllePayload = mockInstance();
+
+      const wrapper = withTreblle(treblleOptions);
+      await wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK'))(new Request(url), { params: Promise.resolve(params) });
+      return buildTrebllePayload.mock.calls[0][0].request.route_path;
+    };
+
+    test('should template repeated param values segment by segment', async () => {
+      expect(await captureRoutePath('http://localhost:3000/api/users/1/posts/1', { userId: '1', postId: '1' }))
+        .toBe('/api/users/[userId]/posts/[postId]');
+    });
+
+    test('should template catch-all params', async () => {
+      expect(await captureRoutePath('http://localhost:3000/api/docs/a/b?x=1', { slug: ['a', 'b'] }))
+        .toBe('/api/docs/[...slug]');
+    });
+
+    const capturePagesRoutePath = async (url: string, query: Record<string, any>) => {
+      const buildTrebllePayload = mockInstance();
+
+      const wrappedHandler = createTreblleWrapper(treblleOptions).pagesHandler(async (_req: any, res: any) => {
+        res.status(200).json({ ok: true });
+      });
+      await wrappedHandler(
+        { method: 'GET', url, headers: {}, query },
+        { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis(), statusCode: 200, getHeaders: () => ({}) }
+      );
+      return buildTrebllePayload.mock.calls[0][0].request.route_path;
+    };
+
+    test('should template Pages routes from dynamic query keys and drop the query string', async () => {
+      expect(await capturePagesRoutePath('/api/users/123?x=1', { id: '123', x: '1' })).toBe('/api/users/[id]');
+    });
+
+    test('should treat params that override the query string as dynamic', async () => {
+      expect(await capturePagesRoutePath('/api/users/123?id=abc', { id: '123' })).toBe('/api/users/[id]');
+    });
+
+    test('should report the forwarded URL and strip the basePath from Pages routes', async () => {
+      const buildTrebllePayload = mockInstance();
+
+      const wrappedHandler = createTreblleWrapper({ ...treblleOptions, basePath: '/shop' })
+        .pagesHandler(async (_req: any, res: any) => {
+          res.status(200).json({ ok: true });
+        });
+      await wrappedHandler(
+        {
+          method: 'GET',
+          url: '/shop/api/orders/5?expand=items',
+          headers: { host: 'internal:3000', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'store.example.com' },
+          query: { id: '5', expand: 'items' }
+        },
+        { status: jest.fn().mockReturnThis(), json: jest.fn().mockReturnThis(), statusCode: 200, getHeaders: () => ({}) }
+      );
+
+      const { request } = buildTrebllePayload.mock.calls[0][0];
+      expect(request.url).toBe('https://store.example.com/shop/api/orders/5?expand=items');
+      expect(request.route_path).toBe('/api/orders/[id]');
+    });
+
+    test('should template Pages catch-all routes', async () => {
+      expect(await capturePagesRoutePath('/api/files/a/b.txt', { path: ['a', 'b.txt'] })).toBe('/api/files/[...path]');
+    });
+  });
+
+  describe('Capture Context', () => {
+    test('should pass the request and response to capture', async () => {
+      const capture = jest.fn();
+      const { getTreblleInstance } = require('../../src/core/instance-manager');
+      getTreblleInstance.mockReturnValue({
+        options: { enabled: true },
+        shouldExcludePath: jest.fn(() => false),
+        isPathIncluded: jest.fn(() => true),
+        formatError: jest.fn(),
+        capture
+      });
+
+      const wrapper = withTreblle(treblleOptions);
+      const wrappedHandler = wrapper(async (_req: Request, _ctx: { params?: any }) => new Response('OK'));
+      const request = new Request('http://localhost:3000/api/test');
+
+      const response = await wrappedHandler(request, { params: {} });
+
+      expect(capture).toHaveBeenCalledWith(expect.any(Object), { source: 'app-router', request, response });
+    });
+  });
 });
@@ -0,0 +1,89 @@
+/**
+ * @file tests/unit/queue.test.ts
+ * @description Tests for the in-memory batching queue
+ */
+
+import { PayloadQueue } from '../../src/core/queue';
+
+describe('PayloadQueue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should send a batch as soon as batchSize is reached', () => {
+    const sender = jest.fn();
+    const queue = new PayloadQueue(sender, { batchSize: 2, flushInterval: 1000 });
+
+    queue.push({ n: 1 });
+    expect(sender).not.toHaveBeenCalled();
+
+    queue.push({ n: 2 });
+    expect(sender).toHaveBeenCalledWith([{ n: 1 }, { n: 2 }]);
+    expect(queue.size).toBe(0);
+  });
+
+  test('should flush a partial batch after the flush interval', () => {
+    const sender = jest.fn();
+    const queue = new PayloadQueue(sender, { batchSize: 10, flushInterval: 500 });
+
+    queue.push({ n: 1 });
+    jest.advanceTimersByTime(499);
+    expect(sender).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    expect(sender).toHaveBeenCalledWith([{ n: 1 }]);
+  });
+
+  test('should drop the oldest payloads when the queue is full', () => {
+    const sender = jest.fn();
+    const onDrop = jest.fn();
+    const queue = new PayloadQueue(sender, { batchSize: 3, maxQueueSize: 3, onDrop });
+    // Prevent size-triggered flushes so the queue fills up
+    (queue as any).batchSize = 100;
+
+    queue.push({ n: 1 });
+    queue.push({ n: 2 });
+    queue.push({ n: 3 });
+    queue.push({ n: 4 });
+
+    expect(queue.size).toBe(3);
+    expect(queue.dropped).toBe(1);
+    expect(onDrop).toHaveBeenCalledWith({ n: 1 });
+  });
+
+  test('should split queued payloads into batches on flush', async () => {
+    const sender = jest.fn();
+    const queue = new PayloadQueue(sender, { batchSize: 2, maxQueueSize: 10 });
+    (queue as any).items = [{ n: 1 }, { n: 2 }, { n: 3 }];
+
+    await queue.flush();
+
+    expect(sender).toHaveBeenCalledTimes(2);
+    expect(sender).toHaveBeenNthCalledWith(1, [{ n: 1 }, { n: 2 }]);
+    expect(sender).toHaveBeenNthCalledWith(2, [{ n: 3 }]);
+  });
+
+  test('should swallow sender failures', async () => {
+    const sender = jest.fn().mockRejectedValue(new Error('boom'));
+    const queue = new PayloadQueue(sender, { batchSize: 5 });
+
+    queue.push({ n: 1 });
+    await expect(queue.flush()).resolves.toBeUndefined();
+  });
+
+  test('should not flush after stop', () => {
+    const sender = jest.fn();
+    const queue = new PayloadQueue(sender, { batchSize: 5, flushInterval: 100 });
+
+    queue.push({ n: 1 });
+    queue.stop();
+    jest.advanceTimersByTime(200);
+
+    expect(sender).not.toHaveBeenCalled();
+    expect(queue.size).toBe(1);
+  });
+});
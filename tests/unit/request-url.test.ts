@@ -0,0 +1,76 @@
+/**
+ * @file tests/unit/request-url.test.ts
+ * @description Tests for absolute URL reconstruction and route path prefixes
+ */
+
+import { getAbsoluteRequestUrl, stripPathPrefixes } from '../../src/core/request-url';
+
+describe('Request URL', () => {
+  describe('getAbsoluteRequestUrl', () => {
+    test('should use the Host header and socket TLS state', () => {
+      expect(getAbsoluteRequestUrl({ url: '/api/users?x=1', headers: { host: 'api.example.com' }, socket: {} }))
+        .toBe('http://api.example.com/api/users?x=1');
+      expect(getAbsoluteRequestUrl({ url: '/api/users', headers: { host: 'api.example.com' }, socket: { encrypted: true } }))
+        .toBe('https://api.example.com/api/users');
+    });
+
+    test('should prefer the first forwarded proto and host from a trusted proxy', () => {
+      const req = {
+        url: '/api/users',
+        headers: {
+          host: 'internal:3000',
+          'x-forwarded-proto': 'https, http',
+          'x-forwarded-host': 'shop.example.com, lb.internal'
+        }
+      };
+
+      expect(getAbsoluteRequestUrl(req)).toBe('https://shop.example.com/api/users');
+      expect(getAbsoluteRequestUrl(req, { trustProxy: false })).toBe('http://internal:3000/api/users');
+    });
+
+    test('should ignore forwarded proto and host from an untrusted peer', () => {
+      const fromPeer = (remoteAddress: string) => ({
+        url: '/api/users',
+        headers: { host: 'internal:3000', 'x-forwarded-proto': 'https', 'x-forwarded-host': 'evil.example.com' },
+        socket: { remoteAddress }
+      });
+
+      expect(getAbsoluteRequestUrl(fromPeer('203.0.113.9'), { trustProxy: ['10.0.0.0/8'] }))
+        .toBe('http://internal:3000/api/users');
+      expect(getAbsoluteRequestUrl(fromPeer('::ffff:10.1.2.3'), { trustProxy: ['10.0.0.0/8'] }))
+        .toBe('https://evil.example.com/api/users');
+      expect(getAbsoluteRequestUrl(fromPeer('203.0.113.9'), { trustProxy: 0 }))
+        .toBe('http://internal:3000/api/users');
+      expect(getAbsoluteRequestUrl(fromPeer('203.0.113.9'), { trustProxy: 1 }))
+        .toBe('https://evil.example.com/api/users');
+    });
+
+    test('should ignore unknown forwarded protocols', () => {
+      expect(getAbsoluteRequestUrl({ url: '/', headers: { host: 'a.test', 'x-forwarded-proto': 'javascript' } }))
+        .toBe('http://a.test/');
+    });
+
+    test('should add a missing basePath', () => {
+      expect(getAbsoluteRequestUrl({ url: '/api/users', headers: { host: 'a.test' } }, { basePath: '/docs' }))
+        .toBe('http://a.test/docs/api/users');
+      expect(getAbsoluteRequestUrl({ url: '/docs/api/users', headers: { host: 'a.test' } }, { basePath: '/docs/' }))
+        .toBe('http://a.test/docs/api/users');
+    });
+
+    test('should fall back to localhost without a Host header', () => {
+      expect(getAbsoluteRequestUrl({ url: '/api/health', headers: {} })).toBe('http://localhost/api/health');
+    });
+  });
+
+  describe('stripPathPrefixes', () => {
+    test('should remove the basePath and a leading locale', () => {
+      expect(stripPathPrefixes('/docs/fr/api/users', { basePath: '/docs', locales: ['en', 'fr'] })).toBe('/api/users');
+      expect(stripPathPrefixes('/docs', { basePath: '/docs' })).toBe('/');
+    });
+
+    test('should leave look-alike prefixes alone', () => {
+      expect(stripPathPrefixes('/docsite/api', { basePath: '/docs' })).toBe('/docsite/api');
+      expect(stripPathPrefixes('/french/api', { locales: ['fr'] })).toBe('/french/api');
+    });
+  });
+});
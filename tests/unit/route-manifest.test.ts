@@ -0,0 +1,124 @@
+/**
+ * @file tests/unit/route-manifest.test.ts
+ * @description Tests for route template resolution from Next.js manifests
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  normalizeAppRouteEntry,
+  matchRouteTemplate,
+  assignRouteParams,
+  loadRouteTemplates,
+  resolveRouteTemplate
+} from '../../src/core/route-manifest';
+
+describe('Route Manifest', () => {
+  test('should drop route groups and parallel slots from app manifest entries', () => {
+    expect(normalizeAppRouteEntry('/(shop)/api/cart/[id]/route')).toBe('/api/cart/[id]');
+    expect(normalizeAppRouteEntry('/@modal/api/photos/route')).toBe('/api/photos');
+    expect(normalizeAppRouteEntry('/dashboard/page')).toBeNull();
+  });
+
+  describe('matchRouteTemplate', () => {
+    const templates = [
+      '/api/users/[id]',
+      '/api/users/me',
+      '/api/users/[id]/posts/[postId]',
+      '/api/docs/[...slug]',
+      '/api/shop/[[...path]]'
+    ];
+
+    test('should prefer static segments over dynamic ones', () => {
+      expect(matchRouteTemplate('/api/users/me', templates)).toBe('/api/users/me');
+      expect(matchRouteTemplate('/api/users/42', templates)).toBe('/api/users/[id]');
+      expect(matchRouteTemplate('/api/users/1/posts/1', templates)).toBe('/api/users/[id]/posts/[postId]');
+    });
+
+    test('should match catch-all and optional catch-all segments', () => {
+      expect(matchRouteTemplate('/api/docs/a/b/c', templates)).toBe('/api/docs/[...slug]');
+      expect(matchRouteTemplate('/api/docs', templates)).toBeNull();
+      expect(matchRouteTemplate('/api/shop', templates)).toBe('/api/shop/[[...path]]');
+      expect(matchRouteTemplate('/api/shop/a/b', templates)).toBe('/api/shop/[[...path]]');
+    });
+
+    test('should compare encoded segments with static template segments', () => {
+      expect(matchRouteTemplate('/api/caf%C3%A9', ['/api/café'])).toBe('/api/café');
+    });
+  });
+
+  describe('assignRouteParams', () => {
+    test('should assign repeated values to successive segments', () => {
+      expect(assignRouteParams('/api/users/1/posts/1', { userId: '1', postId: '1' }))
+        .toBe('/api/users/[userId]/posts/[postId]');
+    });
+
+    test('should not replace partial segment matches', () => {
+      expect(assignRouteParams('/api/v1/items/1', { id: '1' })).toBe('/api/v1/items/[id]');
+    });
+
+    test('should collapse catch-all values and mark empty optional catch-alls', () => {
+      expect(assignRouteParams('/api/docs/a/b', { slug: ['a', 'b'] })).toBe('/api/docs/[...slug]');
+      expect(assignRouteParams('/api/shop', { path: undefined })).toBe('/api/shop/[[...path]]');
+    });
+  });
+
+  describe('resolveRouteTemplate', () => {
+    let tmpDir: string;
+
+    beforeAll(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'treblle-routes-'));
+      fs.mkdirSync(path.join(tmpDir, 'server'));
+      fs.writeFileSync(path.join(tmpDir, 'server', 'app-paths-manifest.json'), JSON.stringify({
+        '/(admin)/api/orders/[orderId]/route': 'app/(admin)/api/orders/[orderId]/route.js',
+        '/api/shop/[[...path]]/route': 'app/api/shop/[[...path]]/route.js',
+        '/page': 'app/page.js'
+      }));
+      fs.writeFileSync(path.join(tmpDir, 'server', 'pages-manifest.json'), JSON.stringify({
+        '/_app': 'pages/_app.js',
+        '/[...page]': 'pages/[...page].js',
+        '/api/users/[id]': 'pages/api/users/[id].js'
+      }));
+    });
+
+    afterAll(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    test('should resolve templates from the app paths manifest', async () => {
+      const distDir = path.relative(process.cwd(), tmpDir);
+      await loadRouteTemplates('app', distDir);
+
+      expect(resolveRouteTemplate('/api/orders/7/', { kind: 'app', distDir })).toBe('/api/orders/[orderId]');
+      expect(resolveRouteTemplate('/api/shop', { kind: 'app', distDir })).toBe('/api/shop/[[...path]]');
+    });
+
+    test('should only use API routes from the pages manifest', async () => {
+      const distDir = path.relative(process.cwd(), tmpDir);
+      expect(await loadRouteTemplates('pages', distDir)).toEqual(['/api/users/[id]']);
+
+      expect(resolveRouteTemplate('/api/users/9', { kind: 'pages', distDir })).toBe('/api/users/[id]');
+      expect(resolveRouteTemplate('/api/unknown', { kind: 'pages', distDir })).toBe('/api/unknown');
+    });
+
+    test('should not wait for the manifest on the request path', async () => {
+      const distDir = path.join(tmpDir, 'late');
+      fs.mkdirSync(path.join(distDir, 'server'), { recursive: true });
+      fs.writeFileSync(path.join(distDir, 'server', 'app-paths-manifest.json'), JSON.stringify({
+        '/api/items/[itemId]/route': 'app/api/items/[itemId]/route.js'
+      }));
+
+      // The first request starts the read and falls back to params
+      expect(resolveRouteTemplate('/api/items/3', { kind: 'app', params: { id: '3' }, distDir })).toBe('/api/items/[id]');
+
+      await loadRouteTemplates('app', distDir);
+      expect(resolveRouteTemplate('/api/items/3', { kind: 'app', params: { id: '3' }, distDir })).toBe('/api/items/[itemId]');
+    });
+
+    test('should fall back to params without a manifest', () => {
+      expect(resolveRouteTemplate('/api/users/5', { kind: 'app', params: { id: '5' }, distDir: 'missing-dist' }))
+        .toBe('/api/users/[id]');
+    });
+  });
+});
@@ -0,0 +1,24 @@
+/**
+ * @file tests/unit/sha256.test.ts
+ * @description Tests for the runtime-agnostic SHA-256 helper
+ */
+
+import { createHash } from 'crypto';
+import { sha256Fallback, sha256Hex } from '../../src/core/sha256';
+
+describe('sha256', () => {
+  test('should match known digests', () => {
+    expect(sha256Fallback('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Fallback('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  test('should agree with Node crypto across block boundaries and UTF-8 input', () => {
+    const inputs = ['a'.repeat(55), 'b'.repeat(56), 'c'.repeat(64), 'd'.repeat(1000), 'zażółć 🎉'];
+
+    inputs.forEach((input) => {
+      const expected = createHash('sha256').update(input, 'utf8').digest('hex');
+      expect(sha256Fallback(input)).toBe(expected);
+      expect(sha256Hex(input)).toBe(expected);
+    });
+  });
+});
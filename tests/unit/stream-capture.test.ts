@@ -0,0 +1,125 @@
+/**
+ * @file tests/unit/stream-capture.test.ts
+ * @description Tests for pass-through capture of streaming responses
+ */
+
+import {
+  teeResponseStream,
+  parseSseEvents,
+  parseNdjsonLines,
+  isStreamingResponse,
+  StreamCaptureResult
+} from '../../src/core/stream-capture';
+
+const encoder = new TextEncoder();
+
+const streamOf = (chunks: string[]) => new ReadableStream<Uint8Array>({
+  start(controller) {
+    chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+    controller.close();
+  }
+});
+
+const capture = async (chunks: string[], contentType: string, limits: { maxBytes?: number; maxEvents?: number } = {}) => {
+  let result: StreamCaptureResult | undefined;
+  const stream = teeResponseStream(streamOf(chunks), { contentType, ...limits }, (r) => { result = r; });
+  const text = await new Response(stream).text();
+  return { text, result: result! };
+};
+
+describe('Stream Capture', () => {
+  test('should pass every byte through while capturing SSE events', async () => {
+    const chunks = [
+      'event: token\ndata: {"delta":"Hel',
+      'lo"}\n\n: keep-alive\n\ndata: line1\ndata: line2\nid: 7\n\n',
+      'data: [DONE]\n\n'
+    ];
+
+    const { text, result } = await capture(chunks, 'text/event-stream; charset=utf-8');
+
+    expect(text).toBe(chunks.join(''));
+    expect(result.completed).toBe(true);
+    expect(result.chunkCount).toBe(3);
+    expect(result.totalBytes).toBe(encoder.encode(chunks.join('')).length);
+    expect(result.body).toEqual({
+      format: 'sse',
+      truncated: false,
+      events: [
+        { event: 'token', data: { delta: 'Hello' } },
+        { id: '7', data: 'line1\nline2' },
+        { data: '[DONE]' }
+      ]
+    });
+  });
+
+  test('should cap captured bytes without cutting the client stream', async () => {
+    const chunks = ['{"n":1}\n{"n":2}\n', '{"n":3}\n{"n":4}\n'];
+
+    const { text, result } = await capture(chunks, 'application/x-ndjson', { maxBytes: 20 });
+
+    expect(text).toBe(chunks.join(''));
+    expect(result.body).toEqual({ format: 'ndjson', truncated: true, lines: [{ n: 1 }, { n: 2 }] });
+    expect(result.totalBytes).toBe(32);
+  });
+
+  test('should limit the number of events', async () => {
+    const { result } = await capture(['data: 1\n\ndata: 2\n\ndata: 3\n\n'], 'text/event-stream', { maxEvents: 2 });
+
+    expect(result.body.events).toEqual([{ data: 1 }, { data: 2 }]);
+  });
+
+  test('should capture other streams as text', async () => {
+    const { result } = await capture(['chunk1', 'chunk2'], 'text/plain');
+
+    expect(result.body).toEqual({ format: 'text', content: 'chunk1chunk2', truncated: false });
+  });
+
+  test('should record time to first byte and report cancelled streams', async () => {
+    let now = 42;
+    let result: StreamCaptureResult | undefined;
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(encoder.encode('data: x\n\n'));
+      }
+    });
+
+    const stream = teeResponseStream(source, { contentType: 'text/event-stream', elapsed: () => now }, (r) => { result = r; });
+    const reader = stream.getReader();
+    await reader.read();
+    now = 99;
+    await reader.cancel();
+
+    expect(result!.completed).toBe(false);
+    expect(result!.timeToFirstByte).toBe(42);
+    expect(result!.duration).toBe(99);
+    expect(result!.body.events[0]).toEqual({ data: 'x' });
+  });
+
+  test('should report what was captured when the stream is not read in time', async () => {
+    const onComplete = jest.fn();
+    teeResponseStream(streamOf(['data: 1\n\n']), { contentType: 'text/event-stream', timeoutMs: 10 }, onComplete);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    // The returned stream pre-reads one chunk even though nobody consumes it
+    expect(onComplete.mock.calls[0][0]).toEqual(expect.objectContaining({
+      body: expect.objectContaining({ events: [{ data: 1 }] }),
+      completed: false
+    }));
+  });
+
+  test('should drop partial trailing events and lines', () => {
+    expect(parseSseEvents('data: a\n\ndata: b', 10, false)).toEqual([{ data: 'a' }]);
+    expect(parseNdjsonLines('{"a":1}\n{"b"', 10, true)).toEqual([{ a: 1 }]);
+  });
+
+  test('should detect streams from SSE, NDJSON and chunked responses', () => {
+    expect(isStreamingResponse('text/event-stream')).toBe(true);
+    expect(isStreamingResponse('application/x-ndjson; charset=utf-8')).toBe(true);
+    expect(isStreamingResponse('application/jsonl')).toBe(true);
+    expect(isStreamingResponse('application/json', 'chunked')).toBe(true);
+    expect(isStreamingResponse('application/json')).toBe(false);
+    expect(isStreamingResponse('')).toBe(false);
+  });
+});
@@ -3,7 +3,8 @@
  * @description Tests for the transport layer functionality
  */
 
-import { sendToTreblle } from '../../src/core/transport';
+import zlib from 'zlib';
+import { sendToTreblle, getBackoffDelay, HttpTransport, encodeBody } from '../../src/core/transport';
 
 // Mock fetch for Edge runtime tests
 const mockFetch = jest.fn();
@@ -23,6 +24,9 @@ const mockResponse = {
 };
 
 jest.mock('https', () => ({
+  Agent: jest.fn().mockImplementation(function (this: any, options: any) {
+    Object.assign(this, options);
+  }),
   request: jest.fn().mockImplementation((_options, callback) => {
     // Simulate successful response
     setTimeout(() => callback(mockResponse), 0);
@@ -217,7 +221,9 @@ describe('Transport Layer', () => {
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': 'test-token'
-        }
+        },
+        // Shared keep-alive agent, so batches reuse the connection
+        agent: expect.objectContaining({ keepAlive: true })
       }, expect.any(Function));
 
       expect(mockRequest.write).toHaveBeenCalledWith(JSON.stringify(payload));
@@ -317,7 +323,8 @@ describe('Transport Layer', () => {
         headers: {
           'Content-Type': 'application/json',
           'x-api-key': 'test-token'
-        }
+        },
+        agent: expect.anything()
       }, expect.any(Function));
     });
   });
@@ -355,4 +362,212 @@ describe('Transport Layer', () => {
       expect(mockRequest.setTimeout).toHaveBeenCalledWith(customTimeout, expect.any(Function));
     });
   });
+
+  describe('Retries and Failover', () => {
+    beforeEach(() => {
+      (globalThis as any).EdgeRuntime = 'edge';
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).EdgeRuntime;
+    });
+
+    test('should retry on network errors and move to the next endpoint', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await sendToTreblle({
+        endpoint: 'https://a.treblle.com',
+        endpoints: ['https://a.treblle.com', 'https://b.treblle.com'],
+        sdkToken: 'test-token',
+        payload: { test: 'data' },
+        maxRetries: 2,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://a.treblle.com');
+      expect(mockFetch.mock.calls[1][0]).toBe('https://b.treblle.com');
+    });
+
+    test('should retry on 5xx and 429 responses', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503 })
+        .mockResolvedValueOnce({ ok: false, status: 429 })
+        .mockResolvedValueOnce({ ok: true, status: 200 });
+
+      await sendToTreblle({
+        endpoint: 'https://a.treblle.com',
+        sdkToken: 'test-token',
+        payload: { test: 'data' },
+        maxRetries: 5,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    test('should not retry on 4xx responses', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 400 });
+
+      await sendToTreblle({
+        endpoint: 'https://a.treblle.com',
+        sdkToken: 'test-token',
+        payload: { test: 'data' },
+        maxRetries: 3,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should stop once the retry budget is spent', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      await sendToTreblle({
+        endpoint: 'https://a.treblle.com',
+        endpoints: ['https://a.treblle.com', 'https://b.treblle.com'],
+        sdkToken: 'test-token',
+        payload: { test: 'data' },
+        maxRetries: 2,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[2][0]).toBe('https://a.treblle.com');
+    });
+
+    test('should not retry by default', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      await sendToTreblle({
+        endpoint: 'https://a.treblle.com',
+        sdkToken: 'test-token',
+        payload: { test: 'data' }
+      });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getBackoffDelay', () => {
+    test('should grow exponentially and respect the cap', () => {
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(1);
+
+      expect(getBackoffDelay(0, 100, 1000)).toBe(100);
+      expect(getBackoffDelay(1, 100, 1000)).toBe(200);
+      expect(getBackoffDelay(2, 100, 1000)).toBe(400);
+      expect(getBackoffDelay(10, 100, 1000)).toBe(1000);
+
+      randomSpy.mockReturnValue(0);
+      expect(getBackoffDelay(2, 100, 1000)).toBe(200);
+
+      randomSpy.mockRestore();
+    });
+  });
+
+  describe('HttpTransport', () => {
+    beforeEach(() => {
+      (globalThis as any).EdgeRuntime = 'edge';
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).EdgeRuntime;
+    });
+
+    test('should start at a random endpoint and fail over to the rest', async () => {
+      const randomSpy = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      mockFetch.mockRejectedValue(new Error('Network error'));
+
+      const transport = new HttpTransport({
+        sdkToken: 'test-token',
+        endpoints: ['https://a.treblle.com', 'https://b.treblle.com', 'https://c.treblle.com'],
+        maxRetries: 2,
+        retryBaseDelayMs: 1,
+        retryMaxDelayMs: 1
+      });
+      await transport.send({ test: 'data' });
+
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        'https://b.treblle.com',
+        'https://c.treblle.com',
+        'https://a.treblle.com'
+      ]);
+      randomSpy.mockRestore();
+    });
+
+    test('should POST batch items one at a time', async () => {
+      const transport = new HttpTransport({ sdkToken: 'test-token', endpoints: ['https://a.treblle.com'] });
+      await transport.sendBatch([{ n: 1 }, { n: 2 }]);
+
+      expect(mockFetch.mock.calls.map((call) => call[1].body)).toEqual([
+        JSON.stringify({ n: 1 }),
+        JSON.stringify({ n: 2 })
+      ]);
+    });
+
+    test('should reject non-HTTPS endpoints when constructed', () => {
+      expect(() => new HttpTransport({ sdkToken: 'test-token', endpoints: ['http://insecure.example.com'] }))
+        .toThrow('Treblle SDK only supports HTTPS endpoints (got http://insecure.example.com)');
+      expect(() => new HttpTransport({ sdkToken: 'test-token', endpoints: ['not a url'] }))
+        .toThrow('Treblle SDK only supports HTTPS endpoints');
+      expect(() => new HttpTransport({ sdkToken: 'test-token', endpoints: [] }))
+        .toThrow('Treblle SDK has no endpoints configured');
+      expect(() => new HttpTransport({ sdkToken: 'test-token', endpoints: ['http://localhost:4000/ingest'] }))
+        .not.toThrow();
+    });
+  });
+
+  describe('Compression', () => {
+    const largePayload = { data: 'x'.repeat(5000) };
+
+    test('should leave payloads uncompressed when compression is off', async () => {
+      const encoded = await encodeBody(largePayload, undefined, false);
+      expect(encoded).toEqual({ body: JSON.stringify(largePayload) });
+    });
+
+    test('should skip compression below the threshold', async () => {
+      const encoded = await encodeBody({ small: true }, { threshold: 1024 }, false);
+      expect(encoded.contentEncoding).toBeUndefined();
+    });
+
+    test('should gzip with zlib in Node', async () => {
+      const encoded = await encodeBody(largePayload, {}, false);
+      expect(encoded.contentEncoding).toBe('gzip');
+      expect(zlib.gunzipSync(encoded.body as Buffer).toString()).toBe(JSON.stringify(largePayload));
+    });
+
+    test('should deflate when requested', async () => {
+      const encoded = await encodeBody(largePayload, { encoding: 'deflate' }, false);
+      expect(encoded.contentEncoding).toBe('deflate');
+      expect(zlib.inflateSync(encoded.body as Buffer).toString()).toBe(JSON.stringify(largePayload));
+    });
+
+    test('should use CompressionStream in Edge', async () => {
+      const encoded = await encodeBody(largePayload, {}, true);
+      expect(encoded.contentEncoding).toBe('gzip');
+      expect(zlib.gunzipSync(Buffer.from(encoded.body as Uint8Array)).toString()).toBe(JSON.stringify(largePayload));
+    });
+
+    test('should send Content-Encoding header with compressed bodies', async () => {
+      (globalThis as any).EdgeRuntime = 'edge';
+
+      await sendToTreblle({
+        endpoint: 'https://test.treblle.com',
+        sdkToken: 'test-token',
+        payload: largePayload,
+        compression: { threshold: 10 }
+      });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+      expect(init.body).toBeInstanceOf(Uint8Array);
+      delete (globalThis as any).EdgeRuntime;
+    });
+  });
 });
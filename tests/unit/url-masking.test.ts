@@ -0,0 +1,67 @@
+/**
+ * @file tests/unit/url-masking.test.ts
+ * @description Tests for query-string and path-segment masking in URLs
+ */
+
+import { maskRequestUrl, maskUrlPath } from '../../src/core/url-masking';
+
+describe('URL Masking', () => {
+  const baseOptions = { sdkToken: 'token', apiKey: 'key' };
+
+  describe('maskRequestUrl', () => {
+    test('should mask sensitive query values and keep the rest verbatim', () => {
+      const url = 'https://api.example.com/users?page=2&token=abc123&api-key=k%2B1&q=hello+world#top';
+
+      expect(maskRequestUrl(url, baseOptions))
+        .toBe('https://api.example.com/users?page=2&token=******&api-key=***&q=hello+world#top');
+    });
+
+    test('should use additional fields, maskPaths and strategies', () => {
+      const options = {
+        ...baseOptions,
+        additionalMaskedFields: ['*_code'],
+        maskPaths: ['request.query.email'],
+        maskingStrategy: 'placeholder' as const
+      };
+
+      expect(maskRequestUrl('/callback?invite_code=xyz&email=a%40b.co&state=1', options))
+        .toBe('/callback?invite_code=%5BREDACTED%5D&email=%5BREDACTED%5D&state=1');
+    });
+
+    test('should leave URLs without secrets untouched', () => {
+      expect(maskRequestUrl('http://localhost:3000/api/test?x=1&flag', baseOptions))
+        .toBe('http://localhost:3000/api/test?x=1&flag');
+      expect(maskRequestUrl('/api/test?', baseOptions)).toBe('/api/test?');
+    });
+
+    test('should mask path segments in the URL', () => {
+      const options = { ...baseOptions, maskUrlSegments: ['/reset/:token'] };
+
+      expect(maskRequestUrl('https://example.com/reset/s3cr3t?token=abc', options))
+        .toBe('https://example.com/reset/******?token=***');
+    });
+  });
+
+  describe('maskUrlPath', () => {
+    test('should mask named segments of matching route patterns', () => {
+      const options = { ...baseOptions, maskUrlSegments: ['/users/*/invites/:code'] };
+
+      expect(maskUrlPath('/users/42/invites/abcd', options)).toBe('/users/42/invites/****');
+      expect(maskUrlPath('/users/42/invites', options)).toBe('/users/42/invites');
+    });
+
+    test('should mask any segment matching a RegExp rule', () => {
+      const options = { ...baseOptions, maskUrlSegments: [/^[0-9a-f]{32}$/] };
+
+      expect(maskUrlPath('/files/0123456789abcdef0123456789abcdef/download', options))
+        .toBe(`/files/${'*'.repeat(32)}/download`);
+    });
+
+    test('should not mask template placeholders in route paths', () => {
+      const options = { ...baseOptions, maskUrlSegments: ['/reset/:token', /token/] };
+
+      expect(maskUrlPath('/reset/[token]', options)).toBe('/reset/[token]');
+      expect(maskUrlPath('/reset/:token', options)).toBe('/reset/:token');
+    });
+  });
+});